@@ -0,0 +1,59 @@
+import { execFile } from 'node:child_process';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { startServer } from '../test/helpers.js';
+
+// Débits de lecture, d'écriture et de recherche à travers le serveur compilé (backend local).
+// Le coût d'un lancement de processus sert de référence : c'était celui de chaque commande
+// avant l'agent persistant (une écriture de 1 Mo en demandait environ 350).
+// Les réponses de plusieurs Mo sont aussi limitées par le tampon de lecture stdio du client MCP.
+const execFileAsync = promisify(execFile);
+const MB = 1024 * 1024;
+
+async function measure(label, iterations, bytes, run) {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) {
+    await run(i);
+  }
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  const throughput = bytes > 0 ? `${(bytes * iterations / MB / (ms / 1000)).toFixed(1)} MB/s` : '';
+  console.log(`${label.padEnd(44)} ${(ms / iterations).toFixed(2).padStart(9)} ms/op  ${throughput}`);
+}
+
+const server = await startServer();
+try {
+  const content = (size) => 'x'.repeat(79).concat('\n').repeat(Math.ceil(size / 80)).slice(0, size);
+  const oneMb = content(MB);
+  const sixteenMb = content(16 * MB);
+
+  await measure('process launch (sh -c :), reference', 50, 0, () => execFileAsync('sh', ['-c', ':']));
+  await measure('get_file_info', 50, 0, () => server.call('get_file_info', { path: server.root }));
+
+  await measure('write_file 1 MB', 20, MB, i => server.call('write_file', { path: join(server.root, `w1-${i}.txt`), content: oneMb }));
+  await measure('write_file 16 MB', 3, 16 * MB, i => server.call('write_file', { path: join(server.root, `w16-${i}.txt`), content: sixteenMb }));
+  await measure('read_file 1 MB', 20, MB, i => server.call('read_file', { path: join(server.root, `w1-${i}.txt`) }));
+  await measure('read_file 16 MB', 3, 16 * MB, i => server.call('read_file', { path: join(server.root, `w16-${i}.txt`) }));
+  await measure('read_file_by_parts 16 MB (all parts)', 1, 16 * MB, async () => {
+    const path = join(server.root, 'w16-0.txt');
+    const { totalParts } = await server.call('get_file_parts_info', { path });
+    for (let part = 1; part <= totalParts; part++) {
+      await server.call('read_file_by_parts', { path, part_number: part });
+    }
+  });
+
+  // Arborescence de recherche : 20 répertoires de 100 fichiers de 4 Ko
+  const tree = join(server.root, 'tree');
+  for (let d = 0; d < 20; d++) {
+    mkdirSync(join(tree, `dir-${d}`), { recursive: true });
+    for (let f = 0; f < 100; f++) {
+      writeFileSync(join(tree, `dir-${d}`, `file-${f}.txt`), content(4096 - 7).concat(f % 10 === 0 ? 'needle\n' : 'hay...\n'));
+    }
+  }
+  const treeBytes = 2000 * 4096;
+  await measure('search_files_by_name, 2000 files', 10, 0, () => server.call('search_files_by_name', { path: tree, pattern: '*-7.txt' }));
+  await measure('search_in_files (grep), 2000 files', 10, treeBytes, () => server.call('search_in_files', { path: tree, pattern: 'needle' }));
+  await measure('search_in_files (multiline), 2000 files', 3, treeBytes, () => server.call('search_in_files', { path: tree, pattern: 'x\\nneedle', regexFlavor: 'javascript', multiline: true }));
+} finally {
+  await server.close();
+}
@@ -2,11 +2,14 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { CallToolRequestSchema, ListToolsRequestSchema, ToolSchema, } from "@modelcontextprotocol/sdk/types.js";
-import { exec } from 'child_process';
+import { ChildProcessByStdio, execFile, spawn } from 'child_process';
+import { createHash, randomBytes } from 'crypto';
+import { Socket } from 'net';
+import { Readable, Writable } from 'stream';
 import { promisify } from 'util';
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
-import { createTwoFilesPatch } from 'diff';
+import { createTwoFilesPatch, diffArrays } from 'diff';
 
 // Définition d'interfaces pour les types utilisés dans le script
 interface WslDistribution {
@@ -24,18 +27,67 @@ interface WslFileStats {
   mode: number;
   isDirectory: () => boolean;
   isFile: () => boolean;
+  isSymbolicLink: () => boolean;
+  // Cible d'un lien symbolique, telle qu'enregistrée dans le lien
+  linkTarget?: string;
 }
 
+type EntryType = 'file' | 'directory' | 'symlink' | 'fifo' | 'socket' | 'block-device' | 'char-device' | 'other';
+
 interface FileEntry {
   name: string;
-  isDirectory: () => boolean;
-  isFile: () => boolean;
+  type: EntryType;
+  size: number;
+  mtime: Date;
+  permissions: string;
+  // Cible du lien, uniquement pour les liens symboliques
+  linkTarget?: string;
+}
+
+interface ListDirectoryOptions {
+  sortBy?: 'name' | 'size' | 'mtime';
+  showHidden?: boolean;
 }
 
 interface TreeEntry {
   name: string;
   type: 'file' | 'directory';
+  size?: number;
   children?: TreeEntry[];
+  // Nombre d'entrées de ce répertoire omises à cause de maxEntries
+  omittedEntries?: number;
+}
+
+interface SearchableEntry {
+  path: string;
+  // Chemin relatif à la racine de la recherche
+  relativePath: string;
+  type: EntryType;
+  size?: number;
+}
+
+interface SearchFilesByNameOptions {
+  excludePatterns?: string[];
+  respectIgnoreFiles?: boolean;
+  type?: 'file' | 'directory' | 'symlink' | 'any';
+  maxDepth?: number;
+  maxResults?: number;
+}
+
+interface DirectoryTreeOptions {
+  maxDepth?: number;
+  excludePatterns?: string[];
+  respectGitignore?: boolean;
+  includeSizes?: boolean;
+  maxEntries?: number;
+}
+
+interface DirectoryTreeResult {
+  tree: TreeEntry[];
+  totalEntries: number;
+  omittedEntries: number;
+  // Entrées de premier niveau omises (les autres sont comptées dans leur répertoire parent)
+  rootOmittedEntries: number;
 }
 
 interface FileInfo {
@@ -45,25 +97,398 @@ interface FileInfo {
   accessed: Date;
   isDirectory: boolean;
   isFile: boolean;
+  isSymbolicLink: boolean;
+  linkTarget?: string;
   permissions: string;
 }
 
+type LineEnding = 'lf' | 'crlf';
+// Fins de ligne à écrire : celles du fichier existant, ou conversion de toutes les lignes
+type LineEndingOption = LineEnding | 'preserve';
+
+interface WriteFileOptions {
+  // Permissions octales à appliquer (ex: "644")
+  mode?: string;
+  // Ajouter le contenu à la fin du fichier au lieu de le remplacer
+  append?: boolean;
+  // Échouer si le fichier existe déjà
+  createOnly?: boolean;
+  // Hash SHA-256 attendu du contenu actuel : l'écriture échoue si le fichier a changé entre-temps
+  expectedHash?: string;
+}
+
+interface StagedWrite {
+  path: string;
+  // Nouveau contenu, null pour supprimer le fichier
+  content: string | Buffer | null;
+  // Contenu d'origine pour l'annulation, null si le fichier n'existait pas
+  original: string | Buffer | null;
+  // Hash du contenu lu : l'écriture échoue avec un conflit si le fichier a changé depuis
+  expectedHash?: string;
+  // Fichier dont un nouveau fichier reprend les permissions et le propriétaire (renommage)
+  permissionsFrom?: string;
+}
+
+interface ReplaceInFilesOptions extends SearchInFilesOptions {
+  dryRun?: boolean;
+  maxFiles?: number;
+}
+
+interface ReplaceInFilesResult {
+  files: { file: string; replacements: number }[];
+  totalReplacements: number;
+  // Diff unifié combiné de tous les fichiers modifiés
+  diff: string;
+  warnings: string[];
+}
+
+interface FileRange {
+  startLine?: number;
+  endLine?: number;
+  head?: number;
+  tail?: number;
+  offset?: number;
+  length?: number;
+}
+
+interface FileRangeResult {
+  content: Buffer;
+  totalLines: number;
+  totalBytes: number;
+  // Plage de lignes retournée (1-based, inclusive), absente pour une lecture par octets
+  firstLine?: number;
+  lastLine?: number;
+  // Plage d'octets retournée (0-based, fin exclusive), absente pour une lecture par lignes
+  startByte?: number;
+  endByte?: number;
+  // Hash du fichier entier au moment de la lecture
+  hash: string;
+}
+
+interface FilePart {
+  partNumber: number;
+  totalParts: number;
+  content: string;
+  // Plage d'octets de la partie (0-based, fin exclusive)
+  startByte: number;
+  endByte: number;
+  // Plage de lignes de la partie (1-based, inclusive)
+  firstLine: number;
+  lastLine: number;
+  totalBytes: number;
+  totalLines: number;
+  // Hash du fichier entier au moment de la lecture
+  hash: string;
+}
+
+interface FilePartsInfo {
+  totalBytes: number;
+  totalLines: number;
+  partSize: number;
+  parts: Omit<FilePart, 'content' | 'totalParts' | 'totalBytes' | 'totalLines' | 'hash'>[];
+}
+
+type SearchOutputMode = 'content' | 'filesWithMatches' | 'count';
+
+type RegexFlavor = 'fixed' | 'extended' | 'pcre' | 'javascript';
+
+interface SearchContextLine {
+  line: number;
+  text: string;
+}
+
+interface SearchHit {
+  line: number;
+  // Colonne (1-based) du début de la correspondance dans la ligne
+  column: number;
+  // Fin de la correspondance : dernière ligne et colonne qui suit le dernier caractère (1-based)
+  endLine: number;
+  endColumn: number;
+  // Lignes line à endLine
+  text: string;
+  before: SearchContextLine[];
+  after: SearchContextLine[];
+}
+
+interface SearchFileResult {
+  file: string;
+  // Nombre de lignes correspondantes dans le fichier (modes content et count)
+  matchCount?: number;
+  // Correspondances conservées (mode content)
+  hits?: SearchHit[];
+}
+
+interface SearchInFilesOptions {
+  caseInsensitive?: boolean;
+  regexFlavor?: RegexFlavor;
+  // Motifs pouvant couvrir plusieurs lignes (\n correspond à une fin de ligne)
+  multiline?: boolean;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  maxResults?: number;
+  contextLines?: number;
+  respectIgnoreFiles?: boolean;
+  outputMode?: SearchOutputMode;
+}
+
+interface SearchInFilesResult {
+  files: SearchFileResult[];
+  // Nombre total de lignes correspondantes trouvées (modes content et count)
+  totalMatches?: number;
+  // Résultats omis au-delà de maxResults : correspondances en mode content, fichiers sinon
+  omitted: number;
+  // Messages de grep (fichiers illisibles, fichiers binaires...), séparés des résultats
+  warnings: string[];
+}
+
 interface EditOperationType {
   oldText: string;
   newText: string;
+  // Correspondance à remplacer (1-based) lorsque oldText apparaît plusieurs fois
+  occurrence?: number;
+  replaceAll?: boolean;
+  // Ligne proche de la correspondance voulue
+  startLine?: number;
+}
+
+// Style d'indentation : tabulations ou espaces, et largeur d'un niveau en colonnes
+interface IndentStyle {
+  useTabs: boolean;
+  size: number;
+}
+
+// Emplacement d'une correspondance de oldText dans le contenu
+interface EditMatch {
+  start: number;
+  end: number;
+  // Ligne de début (1-based)
+  line: number;
+  replacement: string;
+  // Correspondance trouvée en ignorant les espaces en début et fin de ligne
+  fuzzy: boolean;
+}
+
+// Modification appliquée à une correspondance trouvée en ignorant les espaces
+interface FuzzyEdit {
+  // Index de la modification (1-based) et lignes où elle s'applique
+  edit: number;
+  lines: number[];
+}
+
+// Modifications d'un fichier calculées en mémoire, avant écriture
+interface ComputedFileEdits {
+  buffer: Buffer;
+  originalHash: string;
+  // Contenu à écrire, avec les fins de ligne et le BOM demandés
+  output: string;
+  diff: string;
+  fuzzyEdits: FuzzyEdit[];
+  lineEnding: LineEnding;
+  bom: boolean;
+}
+
+// Hunk d'un diff unifié : lignes préfixées par ' ', '-' ou '+'
+interface PatchHunk {
+  header: string;
+  // Première ligne côté original (1-based), null pour un en-tête "@@" sans numéros
+  oldStart: number | null;
+  lines: string[];
+  // "\ No newline at end of file" après la dernière ligne originale / nouvelle
+  oldNoNewline: boolean;
+  newNoNewline: boolean;
+}
+
+// Modifications d'un fichier dans un patch, chemins tels qu'ils y figurent ("/dev/null" compris)
+interface FilePatch {
+  oldPath: string;
+  newPath: string;
+  // En-tête "diff --git" : chemins préfixés par a/ et b/
+  git: boolean;
+  newFile: boolean;
+  deletedFile: boolean;
+  binary: boolean;
+  hunks: PatchHunk[];
+}
+
+interface HunkResult {
+  hunk: number;
+  header: string;
+  applied: boolean;
+  // Ligne du fichier d'origine où le hunk s'applique et écart avec celle annoncée par l'en-tête
+  line?: number;
+  offset?: number;
+  // Nombre de lignes de contexte ignorées en début ou fin de hunk
+  fuzz?: number;
+  error?: string;
+}
+
+interface PatchFileResult {
+  path: string;
+  // Chemin d'origine d'un fichier renommé
+  from?: string;
+  operation: 'modify' | 'create' | 'delete' | 'rename';
+  hunks: HunkResult[];
+  error?: string;
+}
+
+interface ApplyPatchOptions {
+  // Répertoire de base des chemins relatifs du patch
+  basePath?: string;
+  fuzz?: number;
+  dryRun?: boolean;
 }
 
-// Promisify exec pour utiliser async/await
-const execAsync = promisify(exec);
+interface CopyOptions {
+  // Copier un répertoire avec tout son contenu
+  recursive?: boolean;
+  // Remplacer un fichier existant, ou fusionner dans un répertoire existant
+  overwrite?: boolean;
+  preserveTimestamps?: boolean;
+  // Conserver exactement les permissions de la source (sinon celles de la source moins l'umask)
+  preserveMode?: boolean;
+  // Copier la cible des liens symboliques plutôt que les liens eux-mêmes
+  dereferenceSymlinks?: boolean;
+}
+
+// Bilan d'une copie : entrées copiées par type et taille totale des fichiers
+interface CopySummary {
+  files: number;
+  directories: number;
+  symlinks: number;
+  other: number;
+  totalBytes: number;
+  // La destination existait et a été remplacée (fichier) ou complétée (répertoire)
+  overwritten: boolean;
+}
+
+// Déplacement préparé : chemins validés et état de la destination, vérifiés avant tout changement
+interface PlannedMove {
+  source: string;
+  destination: string;
+  type: 'file' | 'directory' | 'symlink';
+  // La destination existe (fichier, lien ou répertoire vide) et sera remplacée
+  replace: boolean;
+  // Seule la casse du nom change, sur un système de fichiers qui l'ignore
+  caseRename: boolean;
+  // Source et destination sur des systèmes de fichiers différents (par exemple /mnt/c) :
+  // la source est copiée à côté de la destination puis supprimée une fois tout déplacé
+  crossFilesystem: boolean;
+  // Nombre d'entrées et taille des fichiers à copier, pour un déplacement entre systèmes de fichiers
+  entries: number;
+  size: number;
+  // Copie temporaire dans le répertoire de destination
+  staged?: string;
+  // Destination remplacée, mise de côté jusqu'à la fin de l'opération
+  aside?: string;
+}
+
+// Notification de progression d'une opération longue (sans effet si le client n'en demande pas)
+type ProgressReporter = (progress: number, total: number, message: string) => Promise<void>;
+
+// Élément de la corbeille, décrit par le fichier info.json de son répertoire
+interface TrashEntry {
+  id: string;
+  originalPath: string;
+  type: EntryType;
+  // Taille totale des fichiers en octets et nombre d'entrées, l'élément compris
+  size: number;
+  entries: number;
+  deletedAt: string;
+}
+
+type BackendName = 'wsl' | 'local';
+
+interface CommandBackend {
+  name: BackendName;
+  // Libellé utilisé dans les messages d'erreur
+  label: string;
+  // Prépare l'environnement d'exécution (choix de la distribution, etc.)
+  initialize(): Promise<void>;
+  // Traduit un vecteur d'arguments Linux en exécutable + arguments à lancer côté Node
+  commandLine(argv: string[]): { file: string; args: string[] };
+}
+
+interface CommandOptions {
+  // Données envoyées sur l'entrée standard de la commande
+  input?: string | Buffer;
+  // Codes de sortie considérés comme un succès (par défaut : 0)
+  allowedExitCodes?: number[];
+}
+
+interface CommandResult {
+  stdout: Buffer;
+  stderr: Buffer;
+  exitCode: number;
+}
+
+interface AgentRequest {
+  // Nom de la commande, pour les messages d'erreur
+  command: string;
+  // Requête encodée (en-tête, arguments, stdin), renvoyée telle quelle si l'agent est remplacé
+  payload: Buffer[];
+  resolve: (result: CommandResult) => void;
+  reject: (error: Error) => void;
+}
+
+// En-tête de la réponse en cours de réception
+interface AgentResponseHeader {
+  exitCode: number;
+  stdoutLength: number;
+  stderrLength: number;
+  // Position du premier octet de stdout dans les octets reçus
+  bodyStart: number;
+}
+
+interface AgentProcess {
+  child: ChildProcessByStdio<Writable, Readable, null>;
+  // Requêtes envoyées dont la réponse n'a pas encore été reçue (ordre FIFO)
+  pending: AgentRequest[];
+  // Morceaux reçus mais pas encore consommés, réunis une seule fois par réponse complète
+  chunks: Buffer[];
+  receivedLength: number;
+  header: AgentResponseHeader | null;
+  // Délai de la requête en tête de file
+  timer: NodeJS.Timeout | null;
+  // PID, dans la distribution, de la commande en cours (chef de son groupe de processus)
+  commandPid: number | null;
+  // Morceaux de requête pas encore écrits, en attente de l'événement 'drain' de stdin
+  input: Buffer[];
+  inputBlocked: boolean;
+}
+
+// Promisify execFile pour utiliser async/await
+const execFileAsync = promisify(execFile);
 
 // Command line argument parsing
 const args = process.argv.slice(2);
 const distroArg = args.find(arg => arg.startsWith('--distro='));
 let allowedDistro: string | null = distroArg ? distroArg.split('=')[1] : null;
+const backendArg = args.find(arg => arg.startsWith('--backend='));
+// Par défaut : WSL sous Windows, shell natif partout ailleurs (conteneurs, CI Linux...)
+const backendName = backendArg ? backendArg.split('=')[1] : (process.platform === 'win32' ? 'wsl' : 'local');
+const defaultExcludesArg = args.find(arg => arg.startsWith('--default-excludes='));
+// Noms (motifs glob) de fichiers et répertoires toujours exclus des recherches
+const defaultExcludes = defaultExcludesArg
+  ? defaultExcludesArg.slice('--default-excludes='.length).split(',').map(name => name.trim()).filter(name => name !== '')
+  : ['.git', 'node_modules', '.svn', '.hg'];
+const trashDirArg = args.find(arg => arg.startsWith('--trash-dir='));
+const commandTimeoutArg = args.find(arg => arg.startsWith('--command-timeout='));
+// Durée maximale d'une commande en secondes (0 : illimitée) ; au-delà, l'agent est tué et relancé
+const commandTimeout = commandTimeoutArg ? Number(commandTimeoutArg.slice('--command-timeout='.length)) : 300;
 const pathArgs = args.filter(arg => !arg.startsWith('--'));
 
 if (pathArgs.length === 0) {
-  console.error("Usage: mcp-server-wsl-filesystem [--distro=name] <allowed-directory> [additional-directories...]");
+  console.error("Usage: mcp-server-wsl-filesystem [--backend=wsl|local] [--distro=name] [--default-excludes=name,...] [--trash-dir=path] [--command-timeout=seconds] <allowed-directory> [additional-directories...]");
+  process.exit(1);
+}
+
+if (backendName !== 'wsl' && backendName !== 'local') {
+  console.error(`Unknown backend '${backendName}'. Supported backends: wsl, local`);
+  process.exit(1);
+}
+
+if (!Number.isFinite(commandTimeout) || commandTimeout < 0) {
+  console.error(`Invalid command timeout '${commandTimeoutArg}'. Expected a number of seconds, 0 for no limit`);
   process.exit(1);
 }
 
@@ -170,7 +595,7 @@ function processOutput(output:string) {
 // Fonctions pour gérer les distributions WSL
 async function listWslDistributions(): Promise<WslDistribution[]> {
   try {
-      const { stdout } = await execAsync('wsl --list --verbose');
+      const { stdout } = await execFileAsync('wsl.exe', ['--list', '--verbose']);
       const lines = processOutput(stdout);
 
       return lines.map(line => {
@@ -228,66 +653,367 @@ async function setupWslDistribution(): Promise<string> {
   return allowedDistro!;
 }
 
-// Initialiser la distribution WSL
-setupWslDistribution().catch(error => {
-  console.error("Erreur lors de l'initialisation de WSL:", error);
+// Backend WSL : chaque commande est lancée via wsl.exe [-d distribution] --exec, sans shell intermédiaire
+const wslBackend: CommandBackend = {
+  name: 'wsl',
+  label: 'WSL',
+  async initialize() {
+    await setupWslDistribution();
+  },
+  commandLine(argv: string[]) {
+    const distroArgs = allowedDistro ? ['-d', allowedDistro] : [];
+    return { file: 'wsl.exe', args: [...distroArgs, '--exec', ...argv] };
+  }
+};
+
+// Backend local : les mêmes commandes sont exécutées directement sur l'hôte
+const localBackend: CommandBackend = {
+  name: 'local',
+  label: 'Local shell',
+  async initialize() {
+    if (allowedDistro) {
+      console.error(`L'option --distro=${allowedDistro} est ignorée avec le backend local.`);
+    }
+    console.error("Utilisation du shell local (/bin/sh)");
+  },
+  commandLine(argv: string[]) {
+    return { file: argv[0], args: argv.slice(1) };
+  }
+};
+
+const backend: CommandBackend = backendName === 'local' ? localBackend : wslBackend;
+
+// Initialiser le backend d'exécution
+backend.initialize().catch(error => {
+  console.error(`Erreur lors de l'initialisation du backend ${backend.name}:`, error);
   process.exit(1);
 });
 
 // Store allowed directories in normalized form
 const allowedDirectories = pathArgs.map(dir => normalizePath(resolve(expandHome(dir))));
 
+// Un chemin est autorisé s'il est un répertoire autorisé ou s'y trouve, segment par segment :
+// /tmp/rootX n'est pas dans /tmp/root
+function isWithinAllowedDirectories(p: string): boolean {
+  const path = normalizePath(p).replace(/\/+$/, '');
+  return allowedDirectories.some(dir => {
+    const root = dir.replace(/\/+$/, '');
+    return root === '' || path === root || path.startsWith(`${root}/`);
+  });
+}
+
 /**
- * Exécute une commande unique dans WSL
+ * Agents sh persistants lancés à la demande dans la distribution, jusqu'à AGENT_POOL_SIZE.
+ *
+ * Requête : "<argc> <taille stdin>\n", puis un argument par ligne préfixé par "r" (brut)
+ * ou "b" (base64, pour les arguments contenant un retour à la ligne), puis les octets de stdin.
+ * Réponse : "p <pid>\n" dès le lancement de la commande, puis
+ * "<code de sortie> <taille stdout> <taille stderr>\n" et les octets de stdout et de stderr.
  */
-async function execWslCommand(command: string): Promise<string> {
-  try {
-    const wslCommand = allowedDistro ? `wsl -d ${allowedDistro} ${command}` : `wsl ${command}`;
-    const { stdout } = await execAsync(wslCommand);
-    return stdout.trim();
+const AGENT_SCRIPT = [
+  'tmp=$(mktemp -d) || exit 1',
+  'trap \'rm -rf "$tmp"\' EXIT',
+  'trap \'exit 1\' HUP INT TERM',
+  // Avec setsid, la commande mène son propre groupe de processus, tué avec ses descendants après un délai dépassé
+  'command -v setsid > /dev/null 2>&1 && session=setsid || session=',
+  'while read -r argc inlen; do',
+  '  set --',
+  '  while [ "$#" -lt "$argc" ]; do',
+  '    IFS= read -r line',
+  '    case $line in',
+  '      r*) set -- "$@" "${line#r}" ;;',
+  // Le "x" final protège les retours à la ligne en fin d'argument de la substitution de commande
+  '      *) arg=$(printf \'%s\' "${line#b}" | base64 -d; printf x); set -- "$@" "${arg%x}" ;;',
+  '    esac',
+  '  done',
+  '  if [ "$inlen" -gt 0 ]; then head -c "$inlen" > "$tmp/in"; else : > "$tmp/in"; fi',
+  '  $session "$@" < "$tmp/in" > "$tmp/out" 2> "$tmp/err" &',
+  '  pid=$!',
+  '  printf \'p %s\\n\' "$pid"',
+  '  wait "$pid"',
+  '  code=$?',
+  '  set -- $(stat -c %s "$tmp/out" "$tmp/err")',
+  '  printf \'%s %s %s\\n\' "$code" "$1" "$2"',
+  '  cat "$tmp/out" "$tmp/err"',
+  'done'
+].join('\n');
+
+// Une commande lente (recherche dans une grande arborescence, fifo bloquée...) n'immobilise qu'un agent
+const AGENT_POOL_SIZE = 4;
+// Taille des morceaux écrits sur stdin de l'agent, pour respecter la contre-pression du tube
+const AGENT_WRITE_CHUNK_SIZE = 1024 * 1024;
+
+const agents: AgentProcess[] = [];
+
+function startAgent(): AgentProcess {
+  const { file, args } = backend.commandLine(['sh', '-c', AGENT_SCRIPT]);
+  const child = spawn(file, args, { stdio: ['pipe', 'pipe', 'inherit'], windowsHide: true });
+  const state: AgentProcess = {
+    child, pending: [], chunks: [], receivedLength: 0, header: null, timer: null, commandPid: null, input: [], inputBlocked: false
+  };
+
+  // L'agent ne doit pas empêcher le serveur de s'arrêter quand le client se déconnecte
+  child.unref();
+  (child.stdin as unknown as Socket).unref();
+  (child.stdout as unknown as Socket).unref();
+
+  const fail = (error: Error) => {
+    removeAgent(state);
+    clearAgentTimer(state);
+    state.input = [];
+    for (const request of state.pending.splice(0)) {
+      request.reject(error);
+    }
+  };
+
+  child.stdout.on('data', (chunk: Buffer) => {
+    state.chunks.push(chunk);
+    state.receivedLength += chunk.length;
+    parseAgentResponses(state);
+  });
+  child.on('error', fail);
+  child.on('exit', (code) => fail(new Error(`helper process exited with code ${code}`)));
+  child.stdin.on('error', fail);
+  child.stdin.on('drain', () => {
+    state.inputBlocked = false;
+    flushAgentInput(state);
+  });
+
+  return state;
+}
+
+function removeAgent(state: AgentProcess): void {
+  const index = agents.indexOf(state);
+  if (index !== -1) {
+    agents.splice(index, 1);
   }
-  catch (error: any) {
-    throw new Error(`WSL command failed: ${error.message}`);
+}
+
+// Agent inactif, sinon nouvel agent tant que le pool n'est pas plein, sinon le moins chargé
+function pickAgent(): AgentProcess {
+  const idle = agents.find(state => state.pending.length === 0);
+  if (idle)
+    return idle;
+  if (agents.length < AGENT_POOL_SIZE) {
+    const state = startAgent();
+    agents.push(state);
+    return state;
+  }
+  return agents.reduce((best, state) => state.pending.length < best.pending.length ? state : best);
+}
+
+// Réunir les morceaux reçus en un seul tampon
+function joinAgentChunks(state: AgentProcess): Buffer {
+  if (state.chunks.length > 1) {
+    state.chunks = [Buffer.concat(state.chunks, state.receivedLength)];
+  }
+  return state.chunks[0] ?? Buffer.alloc(0);
+}
+
+// Retirer les octets consommés en tête des octets reçus
+function consumeAgentBytes(state: AgentProcess, received: Buffer, length: number): void {
+  state.chunks = received.length > length ? [Buffer.from(received.subarray(length))] : [];
+  state.receivedLength = received.length - length;
+}
+
+function parseAgentResponses(state: AgentProcess): void {
+  while (state.pending.length > 0) {
+    if (!state.header) {
+      // L'en-tête ouvre la réponse : seuls les morceaux reçus depuis son début sont réunis
+      const received = joinAgentChunks(state);
+      const headerEnd = received.indexOf(0x0a);
+      if (headerEnd === -1)
+        return;
+
+      const line = received.subarray(0, headerEnd).toString('ascii').trim();
+      // Ligne "p <pid>" : la commande en tête de file vient d'être lancée
+      if (line.startsWith('p ')) {
+        state.commandPid = parseInt(line.slice(2), 10);
+        consumeAgentBytes(state, received, headerEnd + 1);
+        continue;
+      }
+
+      const [exitCode, stdoutLength, stderrLength] = line
+        .split(/\s+/)
+        .map(value => parseInt(value, 10));
+      state.header = { exitCode, stdoutLength, stderrLength, bodyStart: headerEnd + 1 };
+    }
+
+    // Le corps n'est réuni qu'une fois entièrement reçu, quel que soit le nombre de morceaux
+    const { exitCode, stdoutLength, stderrLength, bodyStart } = state.header;
+    const bodyEnd = bodyStart + stdoutLength + stderrLength;
+    if (state.receivedLength < bodyEnd)
+      return;
+
+    const received = joinAgentChunks(state);
+    consumeAgentBytes(state, received, bodyEnd);
+    state.header = null;
+    state.commandPid = null;
+
+    const request = state.pending.shift()!;
+    armAgentTimer(state);
+    request.resolve({
+      stdout: received.subarray(bodyStart, bodyStart + stdoutLength),
+      stderr: received.subarray(bodyStart + stdoutLength, bodyEnd),
+      exitCode
+    });
+  }
+}
+
+function clearAgentTimer(state: AgentProcess): void {
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = null;
+  }
+}
+
+// Délai de la requête en tête de file, relancé à chaque réponse : les requêtes en attente derrière
+// une commande lente ne sont pas pénalisées
+function armAgentTimer(state: AgentProcess): void {
+  clearAgentTimer(state);
+  if (commandTimeout === 0 || state.pending.length === 0)
+    return;
+  state.timer = setTimeout(() => restartAgent(state), commandTimeout * 1000);
+  state.timer.unref();
+}
+
+// Tuer le groupe de processus de la commande dans la distribution : tuer l'agent (wsl.exe sous Windows)
+// ne suffit pas à arrêter ce qui tourne de l'autre côté
+function killAgentCommand(pid: number): void {
+  const { file, args } = backend.commandLine(['sh', '-c', 'kill -KILL -"$1" 2> /dev/null || kill -KILL "$1"', 'sh', String(pid)]);
+  execFile(file, args, { timeout: 10000, windowsHide: true }, () => {
+    // Commande déjà terminée : rien à tuer
+  });
+}
+
+// Une commande a dépassé le délai : elle est tuée avec l'agent, et les requêtes suivantes
+// sont renvoyées aux autres agents
+function restartAgent(state: AgentProcess): void {
+  const [timedOut, ...queued] = state.pending.splice(0);
+  clearAgentTimer(state);
+  removeAgent(state);
+  state.input = [];
+  if (state.commandPid !== null) {
+    killAgentCommand(state.commandPid);
+  }
+  state.child.kill('SIGKILL');
+  timedOut?.reject(new Error(`${timedOut.command} timed out after ${commandTimeout} s, the helper process was restarted`));
+
+  for (const request of queued) {
+    sendAgentRequest(pickAgent(), request);
+  }
+}
+
+// Écrire les morceaux en attente tant que le tube les accepte
+function flushAgentInput(state: AgentProcess): void {
+  while (!state.inputBlocked && state.input.length > 0) {
+    state.inputBlocked = !state.child.stdin.write(state.input.shift()!);
   }
 }
 
+function sendAgentRequest(state: AgentProcess, request: AgentRequest): void {
+  state.pending.push(request);
+  if (state.pending.length === 1) {
+    armAgentTimer(state);
+  }
+  for (const part of request.payload) {
+    for (let offset = 0; offset < part.length; offset += AGENT_WRITE_CHUNK_SIZE) {
+      state.input.push(part.subarray(offset, offset + AGENT_WRITE_CHUNK_SIZE));
+    }
+  }
+  flushAgentInput(state);
+}
+
 /**
- * Exécute une chaîne de commandes avec des pipes dans WSL
- * Chaque élément du tableau sera préfixé avec wsl [options] avant d'être joint par des pipes
+ * Exécute un vecteur d'arguments via un agent persistant du backend actif.
+ * Aucun shell n'interprète les arguments : les données utilisateur passent
+ * uniquement en arguments ou sur l'entrée standard.
  */
-async function execWslPipeline(commands: string[]): Promise<string> {
-  try {
-    if (commands.length === 0) {
-      throw new Error("No commands provided");
+function runCommand(argv: string[], input?: string | Buffer): Promise<CommandResult> {
+  return new Promise((resolvePromise, reject) => {
+    if (argv.some(arg => arg.includes('\0'))) {
+      reject(new Error('arguments must not contain NUL bytes'));
+      return;
     }
-    
-    const joined = commands.join(" | ").replace(/"/g, '\\"');
-    const fullCommand = allowedDistro
-      ? `wsl -d ${allowedDistro} sh -c "${joined}"`
-      : `wsl sh -c "${joined}"`;
+    const stdin = typeof input === 'string' ? Buffer.from(input) : (input ?? Buffer.alloc(0));
+    const header = `${argv.length} ${stdin.length}\n`;
+    const encodedArgs = argv
+      .map(arg => arg.includes('\n') ? `b${Buffer.from(arg).toString('base64')}\n` : `r${arg}\n`)
+      .join('');
+
+    sendAgentRequest(pickAgent(), {
+      command: argv[0],
+      payload: [Buffer.from(header + encodedArgs), stdin],
+      resolve: resolvePromise,
+      reject
+    });
+  });
+}
 
-    const { stdout } = await execAsync(fullCommand);
-    return stdout.trim();
+/**
+ * Exécute une commande via le backend actif et renvoie le résultat brut (octets)
+ */
+async function execWslCommandRaw(argv: string[], options: CommandOptions = {}): Promise<CommandResult> {
+  let result: CommandResult;
+  try {
+    result = await runCommand(argv, options.input);
   }
   catch (error: any) {
-    throw new Error(`WSL pipeline failed: ${error.message}`);
+    throw new Error(`${backend.label} command failed: ${error.message}`);
+  }
+
+  const allowedExitCodes = options.allowedExitCodes ?? [0];
+  if (!allowedExitCodes.includes(result.exitCode)) {
+    const stderr = result.stderr.toString('utf-8').trim();
+    throw new Error(`${backend.label} command failed: ${argv[0]} exited with code ${result.exitCode}${stderr ? `: ${stderr}` : ''}`);
   }
+  return result;
+}
+
+/**
+ * Exécute une commande unique via le backend actif et renvoie sa sortie texte
+ */
+async function execWslCommand(argv: string[], options: CommandOptions = {}): Promise<string> {
+  const result = await execWslCommandRaw(argv, options);
+  // Seul le saut de ligne final est retiré : un chemin renvoyé peut finir par des espaces
+  return result.stdout.toString('utf-8').replace(/\n$/, '');
+}
+
+/**
+ * Exécute un script sh constant via le backend actif.
+ * Les données utilisateur sont passées en paramètres positionnels ($1, $2...)
+ * et ne sont jamais interpolées dans le texte du script.
+ */
+async function execWslScript(script: string, scriptArgs: string[], options: CommandOptions = {}): Promise<string> {
+  return execWslCommand(['sh', '-c', script, 'sh', ...scriptArgs], options);
 }
 
 // Convertir un chemin Windows en chemin WSL
 function toWslPath(windowsPath: string): string {
-  // Nettoyer et normaliser le chemin pour WSL
-  const normalizedPath = normalizePath(windowsPath);
-  // Échapper les caractères spéciaux pour la ligne de commande
-  return normalizedPath.replace(/(["\s'$`\\])/g, '\\$1');
+  // Les chemins sont passés en arguments, sans échappement pour un shell
+  return normalizePath(windowsPath);
 }
 
 // Fonctions d'utilitaire pour les opérations de fichier via WSL
-async function wslStat(filePath: string): Promise<WslFileStats> {
+/**
+ * Métadonnées d'une entrée. Un lien symbolique est décrit lui-même, avec sa cible ;
+ * followSymlinks décrit plutôt ce vers quoi il mène.
+ */
+async function wslStat(filePath: string, options: { followSymlinks?: boolean } = {}): Promise<WslFileStats> {
   const wslPath = toWslPath(filePath);
+  const script = [
+    'path=$1',
+    'shift',
+    'stat "$@" -c \'%s %Y %X %W %a %F\' -- "$path" || exit 1',
+    '[ ! -L "$path" ] || readlink -- "$path"'
+  ].join('\n');
   try {
-    const result = await execWslCommand(`stat -c "%s %Y %X %W %a %F" "${wslPath}"`);
-    const [size, mtime, atime, birthtime, permissions, type] = result.split(' ');
+    const result = await execWslScript(script, [wslPath, ...(options.followSymlinks ? ['-L'] : [])]);
+    const newline = result.indexOf('\n');
+    const statLine = newline === -1 ? result : result.slice(0, newline);
+    // %F peut contenir des espaces ("regular file", "symbolic link")
+    const [size, mtime, atime, birthtime, permissions, ...typeParts] = statLine.split(' ');
+    const type = typeParts.join(' ');
     return {
       size: parseInt(size),
       birthtime: new Date(parseInt(birthtime) * 1000),
@@ -295,597 +1021,4300 @@ async function wslStat(filePath: string): Promise<WslFileStats> {
       atime: new Date(parseInt(atime) * 1000),
       mode: parseInt(permissions, 8),
       isDirectory: () => type.includes('directory'),
-      isFile: () => type.includes('regular file')
+      isFile: () => type.includes('regular'),
+      isSymbolicLink: () => newline !== -1,
+      linkTarget: newline === -1 ? undefined : result.slice(newline + 1)
     };
   } catch (error: any) {
     throw new Error(`Failed to stat ${filePath}: ${error.message}`);
   }
 }
 
-async function wslReaddir(dirPath: string): Promise<FileEntry[]> {
+// Correspondance entre le type %y de find et le type d'entrée exposé
+const FIND_ENTRY_TYPES: Record<string, EntryType> = {
+  f: 'file',
+  d: 'directory',
+  l: 'symlink',
+  p: 'fifo',
+  s: 'socket',
+  b: 'block-device',
+  c: 'char-device',
+};
+
+async function wslReaddir(dirPath: string, options: ListDirectoryOptions = {}): Promise<FileEntry[]> {
   const wslPath = toWslPath(dirPath);
+  // 6 champs NUL-délimités par entrée : type, taille, mtime, permissions, cible du lien, nom
+  // Aucun champ ne peut contenir d'octet NUL : le découpage est exact quels que soient les noms
+  const FIELDS = 6;
   try {
-    // Utiliser ls -la, mais filtrer . et .. (d'où le tail -n +3), et utiliser le bon format de sortie
-    const result = await execWslCommand(
-      `sh -c "ls -la \\"${wslPath}\\" | tail -n +3"`
+    const { stdout } = await execWslCommandRaw(
+      ['find', wslPath, '-mindepth', '1', '-maxdepth', '1', '-printf', '%y\\0%s\\0%T@\\0%m\\0%l\\0%f\\0']
     );
-    if (!result)
-      return [];
-
-    return result.split('\n').map(line => {
-      // Format typique: "drwxr-xr-x 2 user group 4096 Jan 1 12:34 dirname"
-      const parts = line.trim().split(/\s+/);
-      // Le nom peut contenir des espaces, donc nous prenons tout à partir de la 9ème colonne
-      const name = parts.slice(8).join(' ');
-      const isDir = line.startsWith('d');
-
-      return {
+    const fields = stdout.toString('utf-8').split('\0');
+    const entries: FileEntry[] = [];
+    for (let i = 0; i + FIELDS <= fields.length; i += FIELDS) {
+      const [type, size, mtime, permissions, linkTarget, name] = fields.slice(i, i + FIELDS);
+      const entry: FileEntry = {
         name,
-        isDirectory: () => isDir,
-        isFile: () => !isDir
+        type: FIND_ENTRY_TYPES[type] ?? 'other',
+        size: parseInt(size, 10) || 0,
+        mtime: new Date(parseFloat(mtime) * 1000),
+        permissions
       };
-    }).filter(entry => entry.name !== '.' && entry.name !== '..');
+      if (entry.type === 'symlink') {
+        entry.linkTarget = linkTarget;
+      }
+      entries.push(entry);
+    }
+
+    const visible = options.showHidden === false ? entries.filter(entry => !entry.name.startsWith('.')) : entries;
+    // Tri indépendant de la locale : ordre des points de code pour les noms
+    const byName = (a: FileEntry, b: FileEntry) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+    switch (options.sortBy) {
+      case 'size':
+        return visible.sort((a, b) => b.size - a.size || byName(a, b));
+      case 'mtime':
+        return visible.sort((a, b) => b.mtime.getTime() - a.mtime.getTime() || byName(a, b));
+      default:
+        return visible.sort(byName);
+    }
   } catch (error: any) {
     throw new Error(`Failed to read directory ${dirPath}: ${error.message}`);
   }
 }
 
-async function wslReadFile(filePath: string, encoding: string = 'utf-8'): Promise<string> {
+const ENTRY_TYPE_LABELS: Record<EntryType, string> = {
+  'file': '[FILE]',
+  'directory': '[DIR]',
+  'symlink': '[LINK]',
+  'fifo': '[FIFO]',
+  'socket': '[SOCKET]',
+  'block-device': '[BLOCK]',
+  'char-device': '[CHAR]',
+  'other': '[OTHER]',
+};
+
+function formatEntryName(entry: FileEntry): string {
+  return entry.linkTarget !== undefined ? `${entry.name} -> ${entry.linkTarget}` : entry.name;
+}
+
+function toEntryOutput(entry: FileEntry) {
+  return {
+    name: entry.name,
+    type: entry.type,
+    size: entry.size,
+    modified: entry.mtime.toISOString(),
+    permissions: entry.permissions,
+    ...(entry.linkTarget !== undefined ? { linkTarget: entry.linkTarget } : {})
+  };
+}
+
+function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  if (bytes === 0)
+    return '0 B';
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return i === 0 ? `${bytes} B` : `${(bytes / Math.pow(1024, i)).toFixed(2)} ${units[i]}`;
+}
+
+// Lecture binaire : renvoie les octets exacts du fichier, sans décodage ni trim
+async function wslReadFileBuffer(filePath: string): Promise<Buffer> {
   const wslPath = toWslPath(filePath);
   try {
-    return await execWslCommand(`cat "${wslPath}"`);
+    const { stdout } = await execWslCommandRaw(['cat', '--', wslPath]);
+    return stdout;
   } catch (error: any) {
     throw new Error(`Failed to read file ${filePath}: ${error.message}`);
   }
 }
 
-async function wslWriteFile(filePath: string, content: string): Promise<void> {
-  const wslPath = toWslPath(filePath);
-  const tempFile = `/tmp/wsl_write_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+async function wslReadFile(filePath: string, encoding: BufferEncoding = 'utf-8'): Promise<string> {
+  const buffer = await wslReadFileBuffer(filePath);
+  return buffer.toString(encoding);
+}
 
-  try {
-    // 1. Créer un fichier temporaire vide
-    await execWslCommand(`touch "${tempFile}"`);
+// Contenu texte d'un fichier, null s'il est binaire ou n'est pas de l'UTF-8 valide
+function decodeTextFile(buffer: Buffer): string | null {
+  const text = buffer.toString('utf-8');
+  return buffer.subarray(0, 8000).includes(0) || !Buffer.from(text, 'utf-8').equals(buffer) ? null : text;
+}
 
-    // 2. Encoder le contenu en base64 pour éviter les problèmes de caractères spéciaux
-    const buffer = Buffer.from(content);
-    const base64Content = buffer.toString('base64');
+async function wslWriteFile(filePath: string, content: string | Buffer, options: WriteFileOptions = {}): Promise<void> {
+  const wslPath = toWslPath(filePath);
+  // Vérification du contenu actuel juste avant de le remplacer ($3 = hash attendu)
+  const checkHash = hashCheckScript('$1', '$3');
+  let script: string[];
 
-    // 3. Écrire le contenu base64 par morceaux dans le fichier temporaire
-    await writeBase64ContentByChunks(base64Content, tempFile);
+  if (options.append) {
+    script = [checkHash, 'cat >> "$1" || exit 1'];
+  } else if (options.createOnly) {
+    // noclobber : la création échoue (O_EXCL) si le fichier existe déjà
+    script = [
+      'if [ -e "$1" ] || [ -L "$1" ]; then echo "file already exists" >&2; exit 1; fi',
+      'set -C',
+      'cat > "$1" || exit 1'
+    ];
+  } else {
+    script = [
+      // Fichier avec plusieurs liens physiques : écriture sur place pour conserver l'inode partagé
+      'if [ -f "$1" ] && [ "$(stat -c %h -- "$1")" -gt 1 ]; then',
+      `  ${checkHash}`,
+      '  cat > "$1" || exit 1',
+      '  [ -z "$2" ] || chmod -- "$2" "$1"',
+      '  exit',
+      'fi',
+      // Fichier temporaire dans le même répertoire : le mv final reste un rename() atomique
+      'tmp=$(mktemp "$(dirname -- "$1")/.wsl_write.XXXXXX") || exit 1',
+      'trap \'rm -f "$tmp"\' EXIT',
+      'cat > "$tmp" || exit 1',
+      'if [ -e "$1" ]; then',
+      '  chmod --reference="$1" -- "$tmp" || exit 1',
+      '  chown --reference="$1" -- "$tmp" 2>/dev/null || true',
+      'else',
+      // mktemp crée le fichier en 600 : appliquer les permissions par défaut (umask)
+      '  chmod -- "$(printf \'%o\' $((0666 & ~$(umask))))" "$tmp" || exit 1',
+      'fi',
+      '[ -z "$2" ] || chmod -- "$2" "$tmp" || exit 1',
+      checkHash,
+      'mv -f -T -- "$tmp" "$1"'
+    ];
+  }
+  if (options.append || options.createOnly) {
+    script.push('[ -z "$2" ] || chmod -- "$2" "$1"');
+  }
+  // Un répertoire n'est jamais une cible d'écriture (mv déplacerait le fichier temporaire dedans)
+  script.unshift('if [ -d "$1" ]; then echo "target is a directory" >&2; exit 1; fi');
 
-    // 4. Déplacer le fichier temporaire vers la destination finale
-    await execWslCommand(`mv "${tempFile}" "${wslPath}"`);
+  let exitCode: number;
+  try {
+    ({ exitCode } = await execWslCommandRaw(
+      ['sh', '-c', script.join('\n'), 'sh', wslPath, options.mode ?? '', options.expectedHash ?? ''],
+      { input: content, allowedExitCodes: [0, CONFLICT_EXIT_CODE] }
+    ));
   } catch (error: any) {
-    // En cas d'erreur, essayer de nettoyer le fichier temporaire
-    try {
-      await execWslCommand(`rm -f "${tempFile}"`);
-    } catch (e) {
-      // Ignorer les erreurs de nettoyage
-    }
     throw new Error(`Failed to write to ${filePath}: ${error.message}`);
   }
+  if (exitCode === CONFLICT_EXIT_CODE) {
+    throw await createConflictError(filePath, options.expectedHash!);
+  }
 }
 
-// Nouvelle fonction pour écrire le contenu base64 par morceaux
-async function writeBase64ContentByChunks(base64Content: string, targetPath: string): Promise<void> {
-  // Taille maximale sécurisée pour éviter les erreurs de ligne trop longue
-  const maxChunkSize = 4096;
-  
-  // Si le contenu est petit, utilisez la méthode directe
-  if (base64Content.length <= maxChunkSize) {
-    await execWslCommand(`bash -c "echo '${base64Content}' | base64 -d > '${targetPath}'"`);
-    return;
+// Code de sortie des scripts d'écriture lorsque le fichier a changé depuis sa lecture
+const CONFLICT_EXIT_CODE = 9;
+
+// Ligne de script sortant avec CONFLICT_EXIT_CODE si le fichier n'a plus le hash attendu (vide : pas de vérification)
+function hashCheckScript(fileVar: string, hashVar: string): string {
+  return `[ -z "${hashVar}" ] || [ "$({ sha256sum < "${fileVar}"; } 2>/dev/null | cut -d' ' -f1)" = "${hashVar}" ] || exit ${CONFLICT_EXIT_CODE}`;
+}
+
+// Contenus récemment lus ou écrits, indexés par hash, pour montrer ce qui a changé en cas de conflit
+const CONTENT_CACHE_MAX_BYTES = 32 * 1024 * 1024;
+const contentCache = new Map<string, Buffer>();
+let contentCacheBytes = 0;
+
+function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Mémoriser un contenu et renvoyer son hash
+function rememberContent(content: string | Buffer): string {
+  const buffer = typeof content === 'string' ? Buffer.from(content) : content;
+  const hash = hashContent(buffer);
+  if (buffer.length > CONTENT_CACHE_MAX_BYTES)
+    return hash;
+  // Réinsertion en fin de Map : les entrées les moins récemment utilisées sont évincées en premier
+  if (contentCache.has(hash)) {
+    contentCache.delete(hash);
+    contentCacheBytes -= buffer.length;
   }
-  
-  // Vider le fichier cible
-  await execWslCommand(`truncate -s 0 '${targetPath}'`);
-  
-  // Traiter le contenu par morceaux
-  for (let i = 0; i < base64Content.length; i += maxChunkSize) {
-    const chunk = base64Content.substring(i, i + maxChunkSize);
-    // Pour le premier morceau, utilisez > (écraser)
-    // Pour les morceaux suivants, utilisez >> (ajouter)
-    const redirectOperator = i === 0 ? '>' : '>>';
-    await execWslCommand(`bash -c "echo '${chunk}' | base64 -d ${redirectOperator} '${targetPath}'"`);
+  contentCache.set(hash, buffer);
+  contentCacheBytes += buffer.length;
+  for (const [oldHash, oldContent] of contentCache) {
+    if (contentCacheBytes <= CONTENT_CACHE_MAX_BYTES)
+      break;
+    contentCache.delete(oldHash);
+    contentCacheBytes -= oldContent.length;
   }
+  return hash;
 }
 
-async function wslMkdir(dirPath: string): Promise<void> {
-  const wslPath = toWslPath(dirPath);
+// Hash calculé dans la distribution, sans transférer le contenu (lectures partielles)
+async function wslFileHash(filePath: string): Promise<string> {
+  const wslPath = toWslPath(filePath);
   try {
-    await execWslCommand(`mkdir -p "${wslPath}"`);
+    const output = await execWslScript('sha256sum < "$1"', [wslPath]);
+    return output.split(/\s+/)[0];
   } catch (error: any) {
-    throw new Error(`Failed to create directory ${dirPath}: ${error.message}`);
+    throw new Error(`Failed to hash ${filePath}: ${error.message}`);
+  }
+}
+
+// Erreur de conflit : le fichier a changé depuis la lecture qui a fourni expectedHash
+async function createConflictError(filePath: string, expectedHash: string): Promise<Error> {
+  const current = await wslReadFileBuffer(filePath).catch(() => null);
+  const previous = contentCache.get(expectedHash);
+  let details: string;
+  if (current === null) {
+    details = 'The file no longer exists.';
+  } else if (previous) {
+    const diff = createUnifiedDiff(previous.toString('utf-8'), current.toString('utf-8'), filePath);
+    details = `Changes made since it was read:\n${formatDiff(diff)}`;
+  } else {
+    details = 'Its previous content is unknown to the server; read the file again to get its current content and hash.';
   }
+  const currentHash = current === null ? 'none' : hashContent(current);
+  return new Error(
+    `Conflict: ${filePath} has changed since it was read (expected hash ${expectedHash}, current hash ${currentHash}). ${details}`
+  );
 }
 
-async function wslRename(oldPath: string, newPath: string): Promise<void> {
-  const wslOldPath = toWslPath(oldPath);
-  const wslNewPath = toWslPath(newPath);
+// Créer les répertoires manquants parmi directories et leurs parents ; renvoie ceux créés, parents d'abord
+async function createMissingDirectories(directories: string[]): Promise<string[]> {
+  const candidates = new Set<string>();
+  for (let directory of directories) {
+    while (directory !== '/' && directory !== '.' && !candidates.has(directory)) {
+      candidates.add(directory);
+      directory = dirname(directory);
+    }
+  }
+  if (candidates.size === 0) {
+    return [];
+  }
+  let missing: string[];
   try {
-    await execWslCommand(`mv "${wslOldPath}" "${wslNewPath}"`);
+    const { stdout } = await execWslCommandRaw(
+      ['sh', '-c', 'for d; do [ -d "$d" ] || printf \'%s\\0\' "$d"; done', 'sh', ...[...candidates].map(toWslPath)]
+    );
+    missing = stdout.toString('utf-8').split('\0').filter(Boolean);
   } catch (error: any) {
-    throw new Error(`Failed to move ${oldPath} to ${newPath}: ${error.message}`);
+    throw new Error(`Failed to check parent directories: ${error.message}`);
+  }
+  // Un parent a un chemin plus court que ses sous-répertoires
+  missing.sort((a, b) => a.length - b.length);
+  const created: string[] = [];
+  for (const directory of missing) {
+    try {
+      await execWslCommand(['mkdir', '--', directory]);
+    } catch (error: any) {
+      if (created.length > 0) {
+        await execWslCommand(['rmdir', '--', ...[...created].reverse()]).catch(() => {});
+      }
+      throw new Error(`Failed to create directory ${directory}: ${error.message}`);
+    }
+    created.push(directory);
   }
+  return created;
 }
 
-async function wslRealpath(filePath: string): Promise<string> {
+/**
+ * Préparer l'écriture d'un fichier : contenu écrit dans un fichier temporaire du même répertoire,
+ * avec les permissions et le propriétaire de l'original. Renvoie le chemin du fichier temporaire,
+ * ou null pour un fichier à plusieurs liens physiques (qui devra être écrit sur place).
+ */
+async function stageFileWrite(filePath: string, content: string | Buffer, permissionsFrom?: string): Promise<string | null> {
   const wslPath = toWslPath(filePath);
+  const script = [
+    'if [ -d "$1" ]; then echo "target is a directory" >&2; exit 1; fi',
+    'if [ -f "$1" ] && [ "$(stat -c %h -- "$1")" -gt 1 ]; then exit 0; fi',
+    'tmp=$(mktemp "$(dirname -- "$1")/.wsl_write.XXXXXX") || exit 1',
+    'trap \'rm -f "$tmp"\' EXIT',
+    'cat > "$tmp" || exit 1',
+    'ref=$1',
+    '[ -e "$1" ] || ref=$2',
+    'if [ -n "$ref" ] && [ -e "$ref" ]; then',
+    '  chmod --reference="$ref" -- "$tmp" || exit 1',
+    '  chown --reference="$ref" -- "$tmp" 2>/dev/null || true',
+    'else',
+    '  chmod -- "$(printf \'%o\' $((0666 & ~$(umask))))" "$tmp" || exit 1',
+    'fi',
+    'trap - EXIT',
+    'printf \'%s\' "$tmp"'
+  ].join('\n');
   try {
-    return await execWslCommand(`realpath "${wslPath}"`);
+    const tmp = await execWslScript(script, [wslPath, permissionsFrom === undefined ? '' : toWslPath(permissionsFrom)], { input: content });
+    return tmp || null;
   } catch (error: any) {
-    throw new Error(`Failed to resolve realpath for ${filePath}: ${error.message}`);
+    throw new Error(`Failed to write to ${filePath}: ${error.message}`);
   }
 }
 
-// Validate that all directories exist and are accessible
-async function validateDirectories(): Promise<void> {
-  for (const dir of pathArgs) {
-    try {
-      const expandedDir = expandHome(dir);
-      const stats = await wslStat(expandedDir);
-      if (!stats.isDirectory()) {
-        console.error(`Error: ${dir} is not a directory`);
-        process.exit(1);
-      }
+/**
+ * Écrire plusieurs fichiers en tout-ou-rien : tous les contenus sont d'abord préparés dans des fichiers
+ * temporaires, puis mis en place par rename(). Si une mise en place échoue, les fichiers déjà remplacés
+ * retrouvent leur contenu d'origine (ou sont supprimés s'ils n'existaient pas).
+ * Les fichiers à supprimer sont d'abord mis de côté par rename(), et effacés une fois tout en place.
+ * Les répertoires parents manquants sont créés, puis supprimés si l'écriture échoue.
+ */
+async function writeFilesAtomically(writes: StagedWrite[]): Promise<void> {
+  const staged: { write: StagedWrite; tmp: string | null }[] = [];
+  let createdDirectories: string[] = [];
+  const discardStaged = async () => {
+    const temporaries = staged.map(entry => entry.tmp).filter((tmp): tmp is string => tmp !== null);
+    if (temporaries.length > 0) {
+      await execWslCommand(['rm', '-f', '--', ...temporaries]).catch(() => {});
     }
-    catch (error) {
-      console.error(`Error accessing directory ${dir}:`, error);
-      process.exit(1);
+  };
+  // Les plus profonds d'abord, une fois les fichiers qu'ils contenaient retirés
+  const removeCreatedDirectories = async () => {
+    if (createdDirectories.length > 0) {
+      await execWslCommand(['rmdir', '--', ...[...createdDirectories].reverse()]).catch(() => {});
     }
-  }
-}
-
-// Initialize validation
-validateDirectories().catch(error => {
-  console.error("Failed to validate directories:", error);
-  process.exit(1);
-});
-
-// Security utilities
-async function validatePath(requestedPath: string): Promise<string> {
-  const expandedPath = expandHome(requestedPath);
-  const absolute = isAbsolute(expandedPath)
-    ? resolve(expandedPath)
-    : resolve(process.cwd().replace(/\\/g, '/'), expandedPath);
-
-  const normalizedRequested = normalizePath(absolute);
+  };
 
-  // Check if path is within allowed directories
-  const isAllowed = allowedDirectories.some(dir => normalizedRequested.startsWith(dir));
-  if (!isAllowed) {
-    throw new Error(`Access denied - path outside allowed directories: ${absolute} not in ${allowedDirectories.join(', ')}`);
+  try {
+    createdDirectories = await createMissingDirectories(
+      writes.filter(write => write.content !== null).map(write => dirname(write.path))
+    );
+    for (const write of writes) {
+      staged.push({ write, tmp: write.content === null ? null : await stageFileWrite(write.path, write.content, write.permissionsFrom) });
+    }
+  } catch (error) {
+    await discardStaged();
+    await removeCreatedDirectories();
+    throw error;
   }
 
-  // Handle symlinks by checking their real path
-  try {
-    const realPath = await wslRealpath(absolute);
-    const normalizedReal = normalizePath(realPath);
-    const isRealPathAllowed = allowedDirectories.some(dir => normalizedReal.startsWith(dir));
-    if (!isRealPathAllowed) {
-      throw new Error("Access denied - symlink target outside allowed directories");
+  // Les fichiers ne doivent pas avoir changé depuis leur lecture
+  for (const { write } of staged) {
+    if (write.expectedHash && await wslFileHash(write.path).catch(() => null) !== write.expectedHash) {
+      await discardStaged();
+      await removeCreatedDirectories();
+      throw await createConflictError(write.path, write.expectedHash);
     }
-    return realPath;
   }
-  catch (error) {
-    // For new files that don't exist yet, verify parent directory
-    const parentDir = dirname(absolute);
-    try {
-      const realParentPath = await wslRealpath(parentDir);
-      const normalizedParent = normalizePath(realParentPath);
-      const isParentAllowed = allowedDirectories.some(dir => normalizedParent.startsWith(dir));
-      if (!isParentAllowed) {
-        throw new Error("Access denied - parent directory outside allowed directories");
+
+  // Mise en place d'un fichier, précédée d'une nouvelle vérification de son hash dans la même commande :
+  // un fichier modifié depuis la vérification précédente (par une autre écriture du lot, via un lien physique...)
+  // provoque un conflit et l'annulation de ce qui a déjà été mis en place
+  const commitStep = async (write: StagedWrite, script: string, args: string[]) => {
+    const { stdout, exitCode } = await execWslCommandRaw(
+      ['sh', '-c', `${hashCheckScript('$1', '$2')}\n${script}`, 'sh', toWslPath(write.path), write.expectedHash ?? '', ...args],
+      { allowedExitCodes: [0, CONFLICT_EXIT_CODE] }
+    );
+    if (exitCode === CONFLICT_EXIT_CODE) {
+      throw await createConflictError(write.path, write.expectedHash!);
+    }
+    return stdout.toString('utf-8');
+  };
+
+  const committed: { write: StagedWrite; aside: string | null }[] = [];
+  try {
+    while (staged.length > 0) {
+      const { write, tmp } = staged[0];
+      let aside: string | null = null;
+      if (write.content === null) {
+        aside = await commitStep(
+          write,
+          'tmp=$(mktemp -u "$(dirname -- "$1")/.wsl_delete.XXXXXX") && mv -T -- "$1" "$tmp" && printf \'%s\' "$tmp"',
+          []
+        );
+      } else if (tmp !== null) {
+        await commitStep(write, 'mv -f -T -- "$3" "$1"', [tmp]);
+      } else {
+        await wslWriteFile(write.path, write.content, { expectedHash: write.expectedHash });
       }
-      return absolute;
+      staged.shift();
+      committed.push({ write, aside });
     }
-    catch {
-      throw new Error(`Parent directory does not exist: ${parentDir}`);
+  } catch (error: any) {
+    await discardStaged();
+    const notRestored: string[] = [];
+    for (const { write, aside } of committed.reverse()) {
+      try {
+        if (aside !== null) {
+          await execWslCommand(['mv', '-f', '-T', '--', aside, toWslPath(write.path)]);
+        } else if (write.original === null) {
+          await execWslCommand(['rm', '-f', '--', toWslPath(write.path)]);
+        } else {
+          await wslWriteFile(write.path, write.original);
+        }
+      } catch {
+        notRestored.push(write.path);
+      }
     }
+    await removeCreatedDirectories();
+    const rollback = notRestored.length > 0
+      ? `could not restore ${notRestored.join(', ')}`
+      : `${committed.length} already written file(s) restored`;
+    throw new Error(`Failed to write ${staged[0]?.write.path ?? 'files'} (${rollback}): ${error.message}`);
   }
-}
 
-// Schema definitions
-const ReadFileArgsSchema = z.object({
-  path: z.string(),
-});
+  const asides = committed.map(entry => entry.aside).filter((aside): aside is string => aside !== null);
+  if (asides.length > 0) {
+    await execWslCommand(['rm', '-f', '--', ...asides]).catch(() => {});
+  }
+}
 
-const ReadMultipleFilesArgsSchema = z.object({
-  paths: z.array(z.string()),
-});
+let trashDirectory: Promise<string> | null = null;
 
-const WriteFileArgsSchema = z.object({
-  path: z.string(),
-  content: z.string(),
-});
+// Corbeille du serveur : --trash-dir, sinon un répertoire de données de l'utilisateur dans la distribution
+function getTrashDirectory(): Promise<string> {
+  trashDirectory ??= (trashDirArg
+    ? Promise.resolve(normalizePath(trashDirArg.slice('--trash-dir='.length)))
+    : execWslScript('printf \'%s\' "${XDG_DATA_HOME:-$HOME/.local/share}/mcp-wsl-filesystem/trash"', [])
+  ).catch(error => {
+    trashDirectory = null;
+    throw new Error(`Failed to locate the trash directory: ${error.message}`);
+  });
+  return trashDirectory;
+}
 
-const EditOperation = z.object({
-  oldText: z.string().describe('Text to search for - must match exactly'),
-  newText: z.string().describe('Text to replace with')
-});
+// Type, taille totale et nombre d'entrées d'un chemin (sans suivre un lien final), null s'il n'existe pas
+async function describeEntry(entryPath: string): Promise<{ type: EntryType; size: number; entries: number } | null> {
+  const script = [
+    '[ -e "$1" ] || [ -L "$1" ] || exit 3',
+    'type=$(find "$1" -maxdepth 0 -printf %y) || exit 1',
+    'totals=$(find "$1" -printf \'%y %s\\n\' | awk \'{ n++; if ($1 != "d") s += $2 } END { printf "%d %d", s, n }\') || exit 1',
+    'printf \'%s %s\' "$type" "$totals"'
+  ].join('\n');
+  try {
+    const { stdout, exitCode } = await execWslCommandRaw(['sh', '-c', script, 'sh', toWslPath(entryPath)], { allowedExitCodes: [0, 3] });
+    if (exitCode === 3)
+      return null;
+    const [type, size, entries] = stdout.toString('utf-8').trim().split(' ');
+    return { type: FIND_ENTRY_TYPES[type] ?? 'other', size: Number(size), entries: Number(entries) };
+  } catch (error: any) {
+    throw new Error(`Failed to stat ${entryPath}: ${error.message}`);
+  }
+}
 
-const EditFileArgsSchema = z.object({
-  path: z.string(),
-  edits: z.array(EditOperation),
-  dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format')
-});
+/**
+ * Mettre un fichier ou un répertoire à la corbeille : il est déplacé dans un répertoire propre à
+ * l'élément, à côté d'un fichier info.json qui mémorise son emplacement d'origine.
+ */
+async function moveToTrash(entryPath: string, description: { type: EntryType; size: number; entries: number }): Promise<TrashEntry> {
+  const trash = await getTrashDirectory();
+  const now = new Date();
+  const id = `${now.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '')}-${randomBytes(4).toString('hex')}`;
+  const entry: TrashEntry = { id, originalPath: entryPath, ...description, deletedAt: now.toISOString() };
+  const script = [
+    // La corbeille n'est lisible que par son propriétaire
+    'umask 077',
+    'mkdir -p -- "$2" || exit 1',
+    'cat > "$2/info.json" || { rm -rf -- "$2"; exit 1; }',
+    'mv -- "$1" "$2/item" || { rm -rf -- "$2"; exit 1; }'
+  ].join('\n');
+  try {
+    await execWslScript(script, [toWslPath(entryPath), `${trash}/${id}`], { input: JSON.stringify(entry) });
+  } catch (error: any) {
+    throw new Error(`Failed to move ${entryPath} to the trash: ${error.message}`);
+  }
+  return entry;
+}
 
-const CreateDirectoryArgsSchema = z.object({
-  path: z.string(),
-});
+// Éléments de la corbeille dont l'emplacement d'origine est dans un répertoire autorisé, plus récents d'abord
+async function listTrash(): Promise<TrashEntry[]> {
+  const trash = await getTrashDirectory();
+  const script = [
+    '[ -d "$1" ] || exit 0',
+    'for dir in "$1"/*/; do',
+    '  { [ -e "$dir/item" ] || [ -L "$dir/item" ]; } && [ -f "$dir/info.json" ] || continue',
+    '  cat -- "$dir/info.json" && printf \'\\0\'',
+    'done'
+  ].join('\n');
+  let output: Buffer;
+  try {
+    ({ stdout: output } = await execWslCommandRaw(['sh', '-c', script, 'sh', trash]));
+  } catch (error: any) {
+    throw new Error(`Failed to list the trash: ${error.message}`);
+  }
+  const entries: TrashEntry[] = [];
+  for (const record of output.toString('utf-8').split('\0')) {
+    try {
+      const entry = JSON.parse(record) as TrashEntry;
+      if (isWithinAllowedDirectories(entry.originalPath)) {
+        entries.push(entry);
+      }
+    } catch {
+      // Enregistrement vide ou illisible : ignoré
+    }
+  }
+  return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
 
-const ListDirectoryArgsSchema = z.object({
-  path: z.string(),
-});
+// Élément visible de la corbeille, par identifiant
+async function findTrashEntry(id: string): Promise<TrashEntry> {
+  const entry = /^[0-9A-Za-z-]+$/.test(id) ? (await listTrash()).find(candidate => candidate.id === id) : undefined;
+  if (!entry) {
+    throw new Error(`No item with id ${id} in the trash`);
+  }
+  return entry;
+}
 
-const DirectoryTreeArgsSchema = z.object({
-  path: z.string(),
-});
+// Remettre un élément de la corbeille à destination, sans jamais écraser une entrée existante
+async function restoreFromTrash(entry: TrashEntry, destination: string): Promise<void> {
+  const trash = await getTrashDirectory();
+  const script = [
+    'if [ -e "$2" ] || [ -L "$2" ]; then echo "destination already exists" >&2; exit 1; fi',
+    '[ -d "$(dirname -- "$2")" ] || { echo "parent directory does not exist" >&2; exit 1; }',
+    'mv -- "$1/item" "$2" || exit 1',
+    'rm -rf -- "$1"'
+  ].join('\n');
+  try {
+    await execWslScript(script, [`${trash}/${entry.id}`, toWslPath(destination)]);
+  } catch (error: any) {
+    throw new Error(`Failed to restore ${entry.id} to ${destination}: ${error.message}`);
+  }
+}
 
-const MoveFileArgsSchema = z.object({
-  source: z.string(),
-  destination: z.string(),
-});
+// Supprimer définitivement des éléments de la corbeille
+async function removeFromTrash(entries: TrashEntry[]): Promise<void> {
+  if (entries.length === 0)
+    return;
+  const trash = await getTrashDirectory();
+  try {
+    await execWslCommand(['rm', '-rf', '--', ...entries.map(entry => `${trash}/${entry.id}`)]);
+  } catch (error: any) {
+    throw new Error(`Failed to empty the trash: ${error.message}`);
+  }
+}
 
-const SearchFilesArgsSchema = z.object({
-  path: z.string(),
-  pattern: z.string(),
-  excludePatterns: z.array(z.string()).optional().default([])
-});
+/**
+ * Supprimer un fichier ou un répertoire en le mettant à la corbeille.
+ * Un lien symbolique est supprimé lui-même, jamais sa cible ; les répertoires autorisés
+ * et la corbeille elle-même sont refusés.
+ */
+async function deleteEntry(
+  requestedPath: string,
+  options: { directory: boolean; recursive?: boolean; dryRun?: boolean }
+): Promise<{ path: string; type: EntryType; size: number; entries: number; trashEntry: TrashEntry | null }> {
+  // Le chemin demandé puis, une fois les liens des répertoires parents résolus, le chemin réel
+  await assertNotAllowedRoot(resolve(expandHome(requestedPath)).replace(/\/+$/, '') || '/');
+  const entryPath = await validateEntryPath(requestedPath);
+  await assertNotAllowedRoot(entryPath);
+  const trash = await getTrashDirectory();
+  if (entryPath === trash || entryPath.startsWith(`${trash}/`) || trash.startsWith(`${entryPath}/`)) {
+    throw new Error(`Refusing to delete ${entryPath}: it is or contains the trash directory, use empty_trash instead`);
+  }
 
-const GetFileInfoArgsSchema = z.object({
-  path: z.string(),
-});
+  const description = await describeEntry(entryPath);
+  if (description === null) {
+    throw new Error(`No such file or directory: ${entryPath}`);
+  }
+  if (options.directory && description.type !== 'directory') {
+    throw new Error(`Not a directory: ${entryPath}, use delete_file instead`);
+  }
+  if (!options.directory && description.type === 'directory') {
+    throw new Error(`${entryPath} is a directory, use delete_directory instead`);
+  }
+  if (options.directory && !options.recursive && description.entries > 1) {
+    throw new Error(`Directory not empty: ${entryPath} contains ${description.entries - 1} entries, pass recursive: true to delete them too`);
+  }
 
-const ListWslDistrosArgsSchema = z.object({});
+  const trashEntry = options.dryRun ? null : await moveToTrash(entryPath, description);
+  return { path: entryPath, ...description, trashEntry };
+}
 
-const ReadFileByPartsArgsSchema = z.object({
-  path: z.string(),
-  part_number: z.number().int().positive().describe('Part number to read (1, 2, 3, etc.)')
-});
+async function wslMkdir(dirPath: string): Promise<void> {
+  const wslPath = toWslPath(dirPath);
+  try {
+    await execWslCommand(['mkdir', '-p', '--', wslPath]);
+  } catch (error: any) {
+    throw new Error(`Failed to create directory ${dirPath}: ${error.message}`);
+  }
+}
 
-const SearchInFilesArgsSchema = z.object({
-  path: z.string(),
-  pattern: z.string(),
-  caseInsensitive: z.boolean().default(false).describe('Case insensitive search'),
-  isRegex: z.boolean().default(false).describe('Treat pattern as regular expression'),
-  includePatterns: z.array(z.string()).optional().default([]).describe('File patterns to include (e.g., *.js, *.ts)'),
-  excludePatterns: z.array(z.string()).optional().default([]).describe('File patterns to exclude'),
-  maxResults: z.number().int().positive().default(1000).describe('Maximum number of results to return'),
-  contextLines: z.number().int().min(0).default(0).describe('Number of context lines before and after match')
-});
+// Taille maximale d'un lot de fichiers copiés entre deux notifications de progression
+const MOVE_BATCH_ENTRIES = 500;
+const MOVE_BATCH_BYTES = 64 * 1024 * 1024;
 
-const ToolInputSchema = ToolSchema.shape.inputSchema;
-type ToolInput = z.infer<typeof ToolInputSchema>;
+/**
+ * Vérifier qu'un déplacement est possible sans rien modifier : la source existe, le répertoire
+ * de destination aussi, et la destination est libre (ou remplaçable avec overwrite). La destination
+ * est toujours le chemin final de l'entrée, jamais un répertoire dans lequel la déplacer.
+ */
+async function planMove(requestedSource: string, requestedDestination: string, overwrite: boolean): Promise<PlannedMove> {
+  for (const requested of [requestedSource, requestedDestination]) {
+    await assertNotAllowedRoot(resolve(expandHome(requested)).replace(/\/+$/, '') || '/', 'move');
+  }
+  // Un lien symbolique est déplacé ou remplacé lui-même, jamais sa cible
+  const source = await validateEntryPath(requestedSource);
+  const destination = await validateEntryPath(requestedDestination);
+  await assertNotAllowedRoot(source, 'move');
+  await assertNotAllowedRoot(destination, 'replace');
+  if (source === destination) {
+    throw new Error(`Source and destination are the same: ${source}`);
+  }
+  if (destination.startsWith(`${source}/`)) {
+    throw new Error(`Cannot move ${source} into itself`);
+  }
 
-// Server setup
-const server = new Server({
-  name: "secure-filesystem-server",
-  version: "1.3.0",
-}, {
-  capabilities: {
-    tools: {},
-  },
-});
+  const script = [
+    'src=$1 dst=$2',
+    '[ -e "$src" ] || [ -L "$src" ] || { echo "source does not exist" >&2; exit 1; }',
+    'parent=$(dirname -- "$dst")',
+    '[ -d "$parent" ] || { echo "destination directory does not exist" >&2; exit 1; }',
+    'if [ -L "$src" ]; then type=symlink; elif [ -d "$src" ]; then type=directory; else type=file; fi',
+    'existing=none',
+    'if [ -e "$dst" ] || [ -L "$dst" ]; then',
+    '  if [ "$src" -ef "$dst" ]; then existing=same',
+    '  elif [ -d "$dst" ] && [ ! -L "$dst" ]; then',
+    '    if [ -n "$(ls -A -- "$dst")" ]; then existing=directory; else existing=empty-directory; fi',
+    '  else existing=file; fi',
+    'fi',
+    'if [ "$(stat -c %d -- "$src")" = "$(stat -c %d -- "$parent")" ]; then device=same; else device=cross; fi',
+    'totals="0 0"',
+    'if [ "$device" = cross ]; then',
+    '  totals=$(find "$src" -printf \'%y %s\\n\' | awk \'{ if ($1 == "f") s += $2 } END { printf "%d %d", NR, s }\') || exit 1',
+    'fi',
+    'printf \'%s %s %s %s\' "$type" "$existing" "$device" "$totals"'
+  ].join('\n');
+  let output: string;
+  try {
+    output = await execWslScript(script, [toWslPath(source), toWslPath(destination)]);
+  } catch (error: any) {
+    throw new Error(`Failed to move ${source} to ${destination}: ${error.message}`);
+  }
+  const [type, existing, device, entries, size] = output.split(' ');
 
-// Tool implementations
-async function getFileStats(filePath: string): Promise<FileInfo> {
-  const stats = await wslStat(filePath);
+  // Sur un système de fichiers insensible à la casse, foo et Foo désignent la même entrée
+  const caseRename = existing === 'same' && source.toLowerCase() === destination.toLowerCase();
+  if (existing === 'same' && !caseRename) {
+    throw new Error(`Cannot move ${source} to ${destination}: they are the same file`);
+  }
+  if (existing === 'directory') {
+    throw new Error(`Cannot move ${source} to ${destination}: destination is a non-empty directory`);
+  }
+  const replace = existing === 'file' || existing === 'empty-directory';
+  if (replace && !overwrite) {
+    throw new Error(`Cannot move ${source} to ${destination}: destination already exists, pass overwrite: true to replace it`);
+  }
+  if (existing === 'file' && type === 'directory') {
+    throw new Error(`Cannot move ${source} to ${destination}: cannot replace a file with a directory`);
+  }
+  if (existing === 'empty-directory' && type !== 'directory') {
+    throw new Error(`Cannot move ${source} to ${destination}: cannot replace a directory with a ${type}`);
+  }
   return {
-    size: stats.size,
-    created: stats.birthtime,
-    modified: stats.mtime,
-    accessed: stats.atime,
-    isDirectory: stats.isDirectory(),
-    isFile: stats.isFile(),
-    permissions: stats.mode.toString(8).slice(-3),
+    source,
+    destination,
+    type: type as PlannedMove['type'],
+    replace,
+    caseRename,
+    crossFilesystem: device === 'cross',
+    entries: Number(entries),
+    size: Number(size)
   };
 }
 
-async function searchFilesByName(
-  rootPath: string,
-  pattern: string,
-  excludePatterns: string[] = []
-): Promise<string[]> {
-  const wslRootPath = toWslPath(rootPath);
-  const escapedPattern = pattern.replace(/"/g, '\\"');
-  // Construire une commande find plus robuste
-  const command = [`find "${wslRootPath}" -type f`];
+/**
+ * Copier la source d'un déplacement entre systèmes de fichiers dans un chemin temporaire du
+ * répertoire de destination. Un répertoire est copié par lots, avec une notification de
+ * progression après chacun ; les droits et dates des répertoires sont appliqués à la fin.
+ */
+async function stageCrossFilesystemMove(
+  move: PlannedMove,
+  progress: { entries: number; bytes: number; totalEntries: number; totalBytes: number },
+  onProgress?: ProgressReporter
+): Promise<void> {
+  const source = toWslPath(move.source);
+  const report = async () => {
+    await onProgress?.(progress.entries, progress.totalEntries,
+      `Copied ${progress.entries} of ${progress.totalEntries} entries (${formatSize(progress.bytes)} of ${formatSize(progress.totalBytes)})`);
+  };
 
-  // Ajouter grep si pattern fourni
-  if (pattern) {
-    command.push(`(grep -i "${escapedPattern}" || true)`);
+  if (move.type !== 'directory') {
+    move.staged = await execWslScript([
+      'tmp=$(mktemp -u "$(dirname -- "$2")/.wsl_move.XXXXXX") || exit 1',
+      'cp -P --preserve=mode,timestamps -T -- "$1" "$tmp" || { rm -f -- "$tmp"; exit 1; }',
+      'printf \'%s\' "$tmp"'
+    ].join('\n'), [source, toWslPath(move.destination)]);
+    progress.entries += move.entries;
+    progress.bytes += move.size;
+    await report();
+    return;
   }
 
-  // Ajouter des filtres d'exclusion
-  if (excludePatterns && excludePatterns.length > 0) {
-     for (const ex of excludePatterns) {
-      const excluded = ex.replace(/\*/g, ".*").replace(/"/g, '\\"');
-      command.push(`(grep -v "${excluded}" || true)`);
+  move.staged = await execWslScript('mktemp -d "$(dirname -- "$1")/.wsl_move.XXXXXX"', [toWslPath(move.destination)]);
+  const { stdout } = await execWslCommandRaw(['find', source, '-mindepth', '1', '-printf', '%y\\0%s\\0%P\\0']);
+  const fields = stdout.toString('utf-8').split('\0');
+  const directories: string[] = [];
+  const others: { path: string; size: number }[] = [];
+  for (let i = 0; i + 2 < fields.length; i += 3) {
+    if (fields[i] === 'd') {
+      directories.push(fields[i + 2]);
+    } else {
+      others.push({ path: fields[i + 2], size: fields[i] === 'f' ? Number(fields[i + 1]) : 0 });
     }
   }
 
-  try {
-    const result = await execWslPipeline(command);
-    return result ? result.split("\n").filter(line => line.trim() !== "") : [];
-  }
-  catch (error: any) {
-    throw error;
+  // find liste chaque répertoire avant son contenu
+  await execWslScript('cd -- "$1" && xargs -0 -r mkdir --', [move.staged], {
+    input: Buffer.from(directories.map(dir => `${dir}\0`).join(''), 'utf-8')
+  });
+  progress.entries += 1 + directories.length;
+  await report();
+
+  for (let start = 0; start < others.length;) {
+    let end = start;
+    let bytes = 0;
+    while (end < others.length && end - start < MOVE_BATCH_ENTRIES && (end === start || bytes + others[end].size <= MOVE_BATCH_BYTES)) {
+      bytes += others[end].size;
+      end++;
+    }
+    // -R recrée les fichiers spéciaux (tubes nommés...) au lieu de lire leur contenu
+    await execWslScript('cd -- "$1" && xargs -0 -r cp -R -P --preserve=mode,timestamps --parents -t "$2" --', [source, move.staged], {
+      input: Buffer.from(others.slice(start, end).map(entry => `${entry.path}\0`).join(''), 'utf-8')
+    });
+    progress.entries += end - start;
+    progress.bytes += bytes;
+    await report();
+    start = end;
   }
+
+  // Droits et dates des répertoires, des plus profonds aux moins profonds pour que la création
+  // de leur contenu ne modifie plus leur date
+  await execWslScript(
+    'cd -- "$1" && find . -depth -type d -exec sh -c \'for d; do chmod --reference="$d" -- "$0/$d" && touch -r "$d" -- "$0/$d" || exit 1; done\' "$2" {} +',
+    [source, move.staged]
+  );
 }
 
-async function searchInFiles(
-  rootPath: string,
-  pattern: string,
-  options: {
-    caseInsensitive?: boolean;
-    isRegex?: boolean;
-    includePatterns?: string[];
-    excludePatterns?: string[];
-    maxResults?: number;
-    contextLines?: number;
-  } = {}
-): Promise<string> {
-  const wslRootPath = toWslPath(rootPath);
-  
-  // Construire la commande grep
-  const grepOptions: string[] = [];
-  
-  // Options de base
-  grepOptions.push('-n'); // Numéros de ligne
-  grepOptions.push('-H'); // Toujours afficher le nom du fichier
-  grepOptions.push('-r'); // Récursif
-  
-  // Options conditionnelles
-  if (options.caseInsensitive) {
-    grepOptions.push('-i');
-  }
-  
-  if (options.isRegex) {
-    grepOptions.push('-E'); // Extended regex
-  } else {
-    grepOptions.push('-F'); // Fixed string
-  }
-  
-  // Contexte
-  if (options.contextLines && options.contextLines > 0) {
-    grepOptions.push(`-C${options.contextLines}`);
-  }
-  
-  // Limiter les résultats
-  if (options.maxResults) {
-    grepOptions.push(`-m${Math.ceil(options.maxResults / 10)}`); // Approximatif par fichier
+/**
+ * Mettre une entrée en place : la destination remplacée est mise de côté (son chemin est
+ * renvoyé) pour pouvoir être restaurée si une étape suivante échoue.
+ */
+async function commitMove(from: string, to: string, mode: 'create' | 'replace' | 'case'): Promise<string | undefined> {
+  const script = [
+    'src=$1 dst=$2 mode=$3',
+    // Changement de casse : passer par un nom temporaire, mv pouvant voir les deux noms comme un même fichier
+    'if [ "$mode" = case ]; then',
+    '  tmp=$(mktemp -u "$(dirname -- "$dst")/.wsl_move.XXXXXX") && mv -T -- "$src" "$tmp" || exit 1',
+    '  mv -T -- "$tmp" "$dst" || { mv -T -- "$tmp" "$src"; exit 1; }',
+    '  exit 0',
+    'fi',
+    'aside=',
+    'if [ "$mode" = replace ]; then',
+    '  aside=$(mktemp -u "$(dirname -- "$dst")/.wsl_move.XXXXXX") && mv -T -- "$dst" "$aside" || exit 1',
+    'elif [ -e "$dst" ] || [ -L "$dst" ]; then',
+    '  echo "destination already exists" >&2; exit 1',
+    'fi',
+    'if ! mv -T -- "$src" "$dst"; then',
+    '  [ -z "$aside" ] || mv -T -- "$aside" "$dst"',
+    '  exit 1',
+    'fi',
+    'printf \'%s\' "$aside"'
+  ].join('\n');
+  const aside = await execWslScript(script, [toWslPath(from), toWslPath(to), mode]);
+  return aside === '' ? undefined : aside;
+}
+
+// Annuler un déplacement déjà mis en place et restaurer la destination qu'il avait remplacée
+async function rollbackMove(move: PlannedMove): Promise<void> {
+  if (move.caseRename) {
+    await commitMove(move.destination, move.source, 'case');
+    return;
   }
-  
-  // Patterns d'inclusion
-  if (options.includePatterns && options.includePatterns.length > 0) {
-    for (const pattern of options.includePatterns) {
-      grepOptions.push(`--include=${pattern}`);
-    }
+  const script = [
+    'dst=$1 aside=$2 src=$3',
+    // Sans source à restaurer, la destination n'est qu'une copie : la source est intacte
+    'if [ -n "$src" ]; then mv -T -- "$dst" "$src" || exit 1; else rm -rf -- "$dst" || exit 1; fi',
+    '[ -z "$aside" ] || mv -T -- "$aside" "$dst"'
+  ].join('\n');
+  await execWslScript(script, [toWslPath(move.destination), move.aside ?? '', move.crossFilesystem ? '' : toWslPath(move.source)]);
+}
+
+/**
+ * Déplacer ou renommer des fichiers et répertoires, tous ou aucun : tout est vérifié avant le
+ * premier déplacement, et ceux déjà faits sont annulés si un suivant échoue. Sans overwrite,
+ * une destination existante est une erreur. Entre systèmes de fichiers, les sources sont d'abord
+ * copiées à côté de leur destination et ne sont supprimées qu'une fois tout mis en place.
+ */
+async function moveEntries(
+  requests: { source: string; destination: string }[],
+  options: { overwrite?: boolean; onProgress?: ProgressReporter } = {}
+): Promise<PlannedMove[]> {
+  const moves: PlannedMove[] = [];
+  for (const request of requests) {
+    moves.push(await planMove(request.source, request.destination, options.overwrite ?? false));
   }
-  
-  // Patterns d'exclusion
-  if (options.excludePatterns && options.excludePatterns.length > 0) {
-    for (const pattern of options.excludePatterns) {
-      grepOptions.push(`--exclude=${pattern}`);
+
+  // Les chemins d'un lot ne doivent pas se recouvrir, sinon le résultat dépendrait de l'ordre
+  const paths = moves.flatMap((move, index) => [
+    { path: move.source, index },
+    { path: move.destination, index }
+  ]);
+  for (const a of paths) {
+    for (const b of paths) {
+      if (a.index < b.index && (a.path === b.path || a.path.startsWith(`${b.path}/`) || b.path.startsWith(`${a.path}/`))) {
+        throw new Error(`Moves overlap: ${a.path} and ${b.path} are used by several moves`);
+      }
     }
   }
-  
-  // Exclure les répertoires communs à ignorer
-  grepOptions.push('--exclude-dir=.git');
-  grepOptions.push('--exclude-dir=node_modules');
-  grepOptions.push('--exclude-dir=.svn');
-  grepOptions.push('--exclude-dir=.hg');
-  
+
+  const crossMoves = moves.filter(move => move.crossFilesystem);
+  const progress = {
+    entries: 0,
+    bytes: 0,
+    totalEntries: crossMoves.reduce((sum, move) => sum + move.entries, 0),
+    totalBytes: crossMoves.reduce((sum, move) => sum + move.size, 0)
+  };
+  const committed: PlannedMove[] = [];
+  let current: PlannedMove | undefined;
   try {
-    // Encoder le pattern en base64 pour éviter tous problèmes d'échappement
-    const base64Pattern = Buffer.from(pattern).toString('base64');
-    
-    // Construire la commande qui passe le pattern via stdin
-    const grepCommand = `bash -c "echo '${base64Pattern}' | base64 -d | grep ${grepOptions.join(' ')} -f - '${wslRootPath}' 2>&1 || true"`;
-    const result = await execWslCommand(grepCommand);
-    
-    if (!result.trim()) {
-      return "No matches found.";
-    }
-    
-    // Filtrer les messages d'erreur grep courants
-    const lines = result.trim().split('\n').filter(line => {
-      // Ignorer les messages d'erreur courants de grep
-      return !line.includes('grep: ') && 
-             !line.includes('Is a directory') &&
-             !line.includes('Permission denied') &&
-             !line.includes('No such file or directory');
-    });
-    
-    if (lines.length === 0) {
-      return "No matches found.";
+    for (const move of crossMoves) {
+      current = move;
+      await stageCrossFilesystemMove(move, progress, options.onProgress);
     }
-    
-    // Limiter les résultats si nécessaire
-    if (options.maxResults && lines.length > options.maxResults) {
-      const truncated = lines.slice(0, options.maxResults);
-      truncated.push(`\n... (${lines.length - options.maxResults} more results omitted)`);
-      return truncated.join('\n');
+    for (const move of moves) {
+      current = move;
+      const mode = move.caseRename ? 'case' : move.replace ? 'replace' : 'create';
+      move.aside = await commitMove(move.staged ?? move.source, move.destination, mode);
+      committed.push(move);
     }
-    
-    return lines.join('\n');
   } catch (error: any) {
-    throw new Error(`Failed to search in files: ${error.message}`);
+    const failures: string[] = [];
+    for (const move of committed.reverse()) {
+      try {
+        await rollbackMove(move);
+      } catch (rollbackError: any) {
+        failures.push(`${move.destination}: ${rollbackError.message}`);
+      }
+    }
+    const staged = moves.filter(move => move.staged !== undefined && !committed.includes(move)).map(move => toWslPath(move.staged!));
+    if (staged.length > 0) {
+      await execWslCommand(['rm', '-rf', '--', ...staged]).catch(() => undefined);
+    }
+    const failed = current ? `Failed to move ${current.source} to ${current.destination}` : 'Failed to move';
+    throw new Error(
+      `${failed}: ${error.message}` +
+      (moves.length > 1 ? ' (no move was applied)' : '') +
+      (failures.length > 0 ? `. Could not undo: ${failures.join('; ')}` : '')
+    );
+  }
+
+  // Tout est en place : les destinations remplacées et les sources copiées peuvent disparaître
+  const leftovers = [
+    ...moves.filter(move => move.aside !== undefined).map(move => move.aside!),
+    ...crossMoves.map(move => toWslPath(move.source))
+  ];
+  if (leftovers.length > 0) {
+    try {
+      await execWslCommand(['rm', '-rf', '--', ...leftovers]);
+    } catch (error: any) {
+      throw new Error(`Entries were moved but some sources or replaced destinations could not be removed: ${error.message}`);
+    }
   }
+  return moves;
 }
 
-async function readFileByParts(filePath: string, partNumber: number): Promise<string> {
-  const wslPath = toWslPath(filePath);
-  const PART_SIZE = 95000;
-  const MAX_BACKTRACK = 300;
-  
-  try {
-    // Obtenir la taille du fichier
-    const fileSizeStr = await execWslCommand(`bash -c "wc -c < '${wslPath}'"`);
-    const fileSize = parseInt(fileSizeStr.trim());
-    
-    // Calculer la position de début théorique
-    const theoreticalStart = (partNumber - 1) * PART_SIZE;
-    
-    // Vérifier si la partie demandée existe
-    if (theoreticalStart >= fileSize) {
-      throw new Error(`File has only ${fileSize.toLocaleString()} characters. Part ${partNumber} does not exist.`);
+/**
+ * Copier un fichier ou un répertoire vers destination (chemin complet de la copie, jamais un
+ * répertoire dans lequel copier). Les liens symboliques suivis ne doivent mener qu'à des chemins
+ * autorisés, pour ne pas faire entrer dans la copie des fichiers situés en dehors.
+ */
+async function wslCopy(source: string, destination: string, options: CopyOptions = {}): Promise<CopySummary> {
+  const wslSource = toWslPath(source);
+  const follow = options.dereferenceSymlinks ? '-L' : '-P';
+  if (options.dereferenceSymlinks) {
+    let stdout: Buffer;
+    try {
+      // Chemins réels de la source et de tout ce qu'elle contient ; find -L signale les boucles
+      // de liens (code 1), que cp refusera de toute façon
+      ({ stdout } = await execWslCommandRaw(
+        options.recursive
+          ? ['find', '-L', wslSource, '-exec', 'realpath', '-m', '-z', '--', '{}', '+']
+          : ['realpath', '-m', '-z', '--', wslSource],
+        { allowedExitCodes: [0, 1] }
+      ));
+    } catch (error: any) {
+      throw new Error(`Failed to copy ${source} to ${destination}: ${error.message}`);
     }
-    
-    let actualStart = theoreticalStart;
-    
-    // Pour la première partie, pas de recul nécessaire
-    if (partNumber === 1) {
-      const content = await execWslCommand(`head -c ${PART_SIZE} "${wslPath}"`);
-      return content;
+    const outside = stdout.toString('utf-8').split('\0')
+      .filter(path => path !== '' && !isWithinAllowedDirectories(path));
+    if (outside.length > 0) {
+      throw new Error(`Access denied - symbolic links in ${source} lead outside allowed directories: ${outside.slice(0, 5).join(', ')}`);
     }
-    
-    // Pour les autres parties, trouver le début de ligne précédent
-    if (partNumber > 1) {
-      const searchStart = Math.max(0, theoreticalStart - MAX_BACKTRACK);
-      const searchLength = theoreticalStart - searchStart;
-      
-      if (searchLength > 0) {
-        // Lire la zone de recherche et trouver le dernier \n
-        const searchContent = await execWslCommand(
-          `bash -c "tail -c +${searchStart + 1} '${wslPath}' | head -c ${searchLength}"`
-        );
-        
-        const lastNewlineIndex = searchContent.lastIndexOf('\n');
-        
-        if (lastNewlineIndex !== -1) {
-          actualStart = searchStart + lastNewlineIndex + 1;
+  }
+
+  const preserve = [options.preserveMode ? 'mode' : null, options.preserveTimestamps ? 'timestamps' : null].filter(Boolean);
+  const cpArgs = [
+    ...(options.recursive ? ['-R'] : []),
+    follow,
+    ...(preserve.length > 0 ? [`--preserve=${preserve.join(',')}`] : [])
+  ];
+  const script = [
+    'src=$1 dst=$2 overwrite=$3 recursive=$4 follow=$5',
+    'shift 5',
+    'if [ "$recursive" = 1 ]; then',
+    '  [ -d "$src" ] || { echo "source is not a directory" >&2; exit 1; }',
+    'elif [ -d "$src" ] && { [ "$follow" = -L ] || [ ! -L "$src" ]; }; then',
+    '  echo "source is a directory, use copy_directory" >&2; exit 1',
+    'fi',
+    'overwritten=0',
+    'if [ -e "$dst" ] || [ -L "$dst" ]; then',
+    '  [ "$overwrite" = 1 ] || { echo "destination already exists" >&2; exit 1; }',
+    '  if [ "$recursive" = 1 ]; then',
+    '    [ -d "$dst" ] || { echo "destination exists and is not a directory" >&2; exit 1; }',
+    '  elif [ -d "$dst" ]; then',
+    '    echo "destination is a directory" >&2; exit 1',
+    '  fi',
+    '  overwritten=1',
+    'fi',
+    // Bilan de ce qui est copié, calculé sur la source
+    'summary=$(find "$follow" "$src" -printf \'%y %s\\n\' | awk \'{ n[$1]++; if ($1 == "f") s += $2 } END { printf "%d %d %d %d %d", n["f"], n["d"], n["l"], NR - n["f"] - n["d"] - n["l"], s }\') || exit 1',
+    'cp "$@" -T -- "$src" "$dst" || exit 1',
+    'printf \'%s %s\' "$summary" "$overwritten"'
+  ].join('\n');
+
+  let output: string;
+  try {
+    output = await execWslScript(script, [
+      wslSource,
+      toWslPath(destination),
+      options.overwrite ? '1' : '0',
+      options.recursive ? '1' : '0',
+      follow,
+      ...cpArgs
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to copy ${source} to ${destination}: ${error.message}`);
+  }
+  const [files, directories, symlinks, other, totalBytes, overwritten] = output.split(' ').map(Number);
+  return { files, directories, symlinks, other, totalBytes, overwritten: overwritten === 1 };
+}
+
+/**
+ * Vérifier qu'une cible de lien symbolique reste dans les répertoires autorisés. Une cible relative
+ * l'est au répertoire du lien : elle est vérifiée telle quelle ("..") puis une fois les liens
+ * qu'elle traverse résolus, comme le fera le système en suivant le lien.
+ */
+async function validateLinkTarget(linkPath: string, target: string): Promise<{ target: string; resolved: string; exists: boolean }> {
+  const expanded = expandHome(target);
+  const linkTarget = isAbsolute(expanded) ? normalizePath(expanded) : expanded.replace(/\\/g, '/');
+  const lexical = normalizePath(resolve(dirname(linkPath), linkTarget));
+  if (!isWithinAllowedDirectories(lexical)) {
+    throw new Error(`Access denied - link target outside allowed directories: ${target} resolves to ${lexical}`);
+  }
+  const script = [
+    'resolved=$(realpath -m -- "$1") || exit 1',
+    'if [ -e "$1" ]; then printf \'1 %s\' "$resolved"; else printf \'0 %s\' "$resolved"; fi'
+  ].join('\n');
+  let output: string;
+  try {
+    output = await execWslScript(script, [linkTarget.startsWith('/') ? linkTarget : `${dirname(linkPath)}/${linkTarget}`]);
+  } catch (error: any) {
+    throw new Error(`Failed to resolve link target ${target}: ${error.message}`);
+  }
+  const resolved = normalizePath(output.slice(2));
+  if (!isWithinAllowedDirectories(resolved)) {
+    throw new Error(`Access denied - link target outside allowed directories: ${target} resolves to ${resolved}`);
+  }
+  return { target: linkTarget, resolved, exists: output.startsWith('1') };
+}
+
+// Créer un lien symbolique à linkPath ; overwrite remplace un fichier ou un lien, jamais un répertoire
+async function wslSymlink(linkPath: string, target: string, overwrite: boolean): Promise<void> {
+  try {
+    await execWslCommand(['ln', '-s', ...(overwrite ? ['-f'] : []), '-T', '--', target, toWslPath(linkPath)]);
+  } catch (error: any) {
+    throw new Error(`Failed to create symbolic link ${linkPath}: ${error.message}`);
+  }
+}
+
+// Créer un lien physique vers un fichier existant, sur le même système de fichiers
+async function wslHardlink(linkPath: string, target: string, overwrite: boolean): Promise<void> {
+  try {
+    await execWslCommand(['ln', ...(overwrite ? ['-f'] : []), '-T', '--', toWslPath(target), toWslPath(linkPath)]);
+  } catch (error: any) {
+    const crossDevice = /cross-device/i.test(error.message);
+    throw new Error(crossDevice
+      ? `Failed to create hard link ${linkPath}: ${target} is on another filesystem, use create_symlink or copy_file instead`
+      : `Failed to create hard link ${linkPath}: ${error.message}`);
+  }
+}
+
+// Lire un lien symbolique : sa cible brute, le chemin où elle mène et si ce chemin existe
+async function wslReadLink(linkPath: string): Promise<{ target: string; resolved: string | null; exists: boolean }> {
+  const script = [
+    '[ -L "$1" ] || { echo "not a symbolic link" >&2; exit 1; }',
+    'target=$(readlink -- "$1"; echo .) || exit 1',
+    // Dans une boucle de liens, realpath -m s'arrête sur un lien : chemin vide
+    'resolved=$(realpath -m -- "$1" 2>/dev/null) && [ ! -L "$resolved" ] || resolved=',
+    'if [ -e "$1" ]; then exists=1; else exists=0; fi',
+    'printf \'%s\\0%s\\0%s\' "$exists" "$resolved" "${target%?.}"'
+  ].join('\n');
+  let stdout: Buffer;
+  try {
+    ({ stdout } = await execWslCommandRaw(['sh', '-c', script, 'sh', toWslPath(linkPath)]));
+  } catch (error: any) {
+    throw new Error(`Failed to read link ${linkPath}: ${error.message}`);
+  }
+  const [exists, resolved, ...target] = stdout.toString('utf-8').split('\0');
+  return { target: target.join('\0'), resolved: resolved === '' ? null : normalizePath(resolved), exists: exists === '1' };
+}
+
+async function wslRealpath(filePath: string): Promise<string> {
+  const wslPath = toWslPath(filePath);
+  try {
+    return await execWslCommand(['realpath', '--', wslPath]);
+  } catch (error: any) {
+    throw new Error(`Failed to resolve realpath for ${filePath}: ${error.message}`);
+  }
+}
+
+// Types MIME connus, indexés par extension
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  tar: 'application/x-tar',
+  wasm: 'application/wasm',
+  json: 'application/json',
+  xml: 'application/xml',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  html: 'text/html',
+  css: 'text/css',
+  csv: 'text/csv',
+  js: 'text/javascript',
+  ts: 'text/x-typescript',
+};
+
+// Signatures ("magic bytes") des formats binaires les plus courants
+const MAGIC_NUMBERS: { mimeType: string; bytes: number[] }[] = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { mimeType: 'application/wasm', bytes: [0x00, 0x61, 0x73, 0x6d] },
+];
+
+// Détecter le type MIME d'après le contenu, puis d'après l'extension
+function detectMimeType(filePath: string, content: Buffer): string {
+  for (const { mimeType, bytes } of MAGIC_NUMBERS) {
+    if (content.length >= bytes.length && bytes.every((byte, i) => content[i] === byte)) {
+      return mimeType;
+    }
+  }
+  // RIFF....WEBP
+  if (content.length >= 12 && content.toString('ascii', 0, 4) === 'RIFF' && content.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+
+  const name = filePath.slice(filePath.lastIndexOf('/') + 1);
+  const extension = name.includes('.') ? name.slice(name.lastIndexOf('.') + 1).toLowerCase() : '';
+  if (MIME_TYPES[extension]) {
+    return MIME_TYPES[extension];
+  }
+  return isBinaryContent(content) ? 'application/octet-stream' : 'text/plain';
+}
+
+// Un contenu est considéré binaire s'il contient un octet NUL ou n'est pas de l'UTF-8 valide
+function isBinaryContent(content: Buffer): boolean {
+  if (content.subarray(0, 8000).includes(0)) {
+    return true;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(content);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') ||
+    mimeType === 'application/json' ||
+    mimeType === 'application/xml' ||
+    mimeType === 'image/svg+xml';
+}
+
+function isTextContent(mimeType: string, content: Buffer): boolean {
+  return isTextMimeType(mimeType) && !isBinaryContent(content);
+}
+
+// Construire le contenu MCP d'un fichier binaire (image, audio ou blob base64)
+function toBinaryContent(filePath: string, content: Buffer, mimeType: string) {
+  if (mimeType.startsWith('image/')) {
+    return { type: "image" as const, data: content.toString('base64'), mimeType };
+  }
+  if (mimeType.startsWith('audio/')) {
+    return { type: "audio" as const, data: content.toString('base64'), mimeType };
+  }
+  return {
+    type: "resource" as const,
+    resource: {
+      uri: `file://${encodeURI(filePath)}`,
+      mimeType,
+      blob: content.toString('base64')
+    }
+  };
+}
+
+// Jeux de caractères reconnus pour les fichiers texte qui ne sont pas de l'UTF-8
+type LegacyCharset = 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1';
+
+/**
+ * Jeu de caractères d'un contenu qui n'est pas de l'UTF-8 valide : UTF-16 annoncé par son BOM, sinon
+ * un encodage occidental sur 8 bits (windows-1252, ou ISO-8859-1 si le contenu utilise des octets
+ * que windows-1252 n'attribue pas) quand le début ne contient aucun caractère de contrôle.
+ * null si le contenu ressemble à un fichier binaire.
+ */
+function detectLegacyCharset(content: Buffer): LegacyCharset | null {
+  if (content[0] === 0xff && content[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (content[0] === 0xfe && content[1] === 0xff) {
+    return 'utf-16be';
+  }
+  const sample = content.subarray(0, 8000);
+  // Tabulation, sauts de ligne, saut de page et ESC sont les seuls contrôles admis dans un texte
+  if (sample.some(byte => (byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)) || byte === 0x7f)) {
+    return null;
+  }
+  return [0x81, 0x8d, 0x8f, 0x90, 0x9d].some(byte => sample.includes(byte)) ? 'iso-8859-1' : 'windows-1252';
+}
+
+// Caractères windows-1252 des octets 0x80 à 0x9F ; les autres octets ont la même valeur qu'en ISO-8859-1
+const WINDOWS_1252_C1 = '\u20AC\u0081\u201A\u0192\u201E\u2026\u2020\u2021\u02C6\u2030\u0160\u2039\u0152\u008D\u017D\u008F\u0090\u2018\u2019\u201C\u201D\u2022\u2013\u2014\u02DC\u2122\u0161\u203A\u0153\u009D\u017E\u0178';
+
+/**
+ * Texte d'un fichier et jeu de caractères dont il a été décodé, null pour un fichier binaire.
+ * Les fichiers texte qui ne sont pas de l'UTF-8 sont décodés d'après detectLegacyCharset.
+ */
+function decodeFileText(mimeType: string, content: Buffer): { text: string; charset: 'utf-8' | LegacyCharset } | null {
+  if (isTextContent(mimeType, content)) {
+    return { text: content.toString('utf-8'), charset: 'utf-8' };
+  }
+  // Les formats reconnus à leur signature (images, archives...) ne sont jamais du texte
+  if (!isTextMimeType(mimeType) && mimeType !== 'application/octet-stream') {
+    return null;
+  }
+  const charset = detectLegacyCharset(content);
+  if (charset === null) {
+    return null;
+  }
+  if (charset === 'utf-16le' || charset === 'utf-16be') {
+    // Le BOM est retiré par TextDecoder
+    return { text: new TextDecoder(charset).decode(content), charset };
+  }
+  const text = content.toString('latin1');
+  return {
+    text: charset === 'windows-1252' ? text.replace(/[\x80-\x9f]/g, char => WINDOWS_1252_C1[char.charCodeAt(0) - 0x80]) : text,
+    charset
+  };
+}
+
+// Validate that all directories exist and are accessible
+async function validateDirectories(): Promise<void> {
+  for (const dir of pathArgs) {
+    try {
+      const expandedDir = expandHome(dir);
+      const stats = await wslStat(expandedDir, { followSymlinks: true });
+      if (!stats.isDirectory()) {
+        console.error(`Error: ${dir} is not a directory`);
+        process.exit(1);
+      }
+    }
+    catch (error) {
+      console.error(`Error accessing directory ${dir}:`, error);
+      process.exit(1);
+    }
+  }
+}
+
+// Initialize validation
+validateDirectories().catch(error => {
+  console.error("Failed to validate directories:", error);
+  process.exit(1);
+});
+
+// Security utilities
+async function validatePath(requestedPath: string, options: { allowMissingParents?: boolean } = {}): Promise<string> {
+  const expandedPath = expandHome(requestedPath);
+  const absolute = isAbsolute(expandedPath)
+    ? resolve(expandedPath)
+    : resolve(process.cwd().replace(/\\/g, '/'), expandedPath);
+
+  // Check if path is within allowed directories
+  if (!isWithinAllowedDirectories(absolute)) {
+    throw new Error(`Access denied - path outside allowed directories: ${absolute} not in ${allowedDirectories.join(', ')}`);
+  }
+
+  // Handle symlinks by checking their real path; -m also resolves dangling links, which
+  // would otherwise let a new file be created outside allowed directories
+  const script = [
+    'resolved=$(realpath -m -- "$1") || exit 1',
+    'if [ -e "$1" ]; then state=exists; elif [ -d "$(dirname -- "$1")" ]; then state=new; else state=orphan; fi',
+    'printf \'%s %s\' "$state" "$resolved"'
+  ].join('\n');
+  let output: string;
+  try {
+    output = await execWslScript(script, [toWslPath(absolute)]);
+  }
+  catch (error: any) {
+    throw new Error(`Failed to resolve realpath for ${absolute}: ${error.message}`);
+  }
+  const state = output.slice(0, output.indexOf(' '));
+  const realPath = output.slice(state.length + 1);
+  if (!isWithinAllowedDirectories(realPath)) {
+    throw new Error(`Access denied - symlink target outside allowed directories: ${absolute} resolves to ${realPath}`);
+  }
+  if (state === 'exists') {
+    return realPath;
+  }
+
+  // For new files that don't exist yet, verify parent directory (the whole path is already
+  // known to resolve inside allowed directories when missing parents will be created)
+  if (state !== 'new' && !options.allowMissingParents) {
+    throw new Error(`Parent directory does not exist: ${dirname(absolute)}`);
+  }
+  return absolute;
+}
+
+// Valider le chemin d'une entrée sans suivre un éventuel lien symbolique final (suppression de liens, etc.)
+async function validateEntryPath(requestedPath: string): Promise<string> {
+  const expandedPath = expandHome(requestedPath);
+  const absolute = (isAbsolute(expandedPath)
+    ? resolve(expandedPath)
+    : resolve(process.cwd().replace(/\\/g, '/'), expandedPath)).replace(/\/+$/, '');
+  const name = absolute.slice(absolute.lastIndexOf('/') + 1);
+  if (name === '') {
+    throw new Error(`Access denied - path outside allowed directories: / not in ${allowedDirectories.join(', ')}`);
+  }
+  // Un répertoire autorisé est valide lui-même, même si son parent ne l'est pas
+  if (allowedDirectories.some(dir => dir.replace(/\/+$/, '') === absolute)) {
+    return absolute;
+  }
+  const parent = await validatePath(dirname(absolute));
+  return join(parent, name);
+}
+
+let allowedRootRealpaths: Promise<string[]> | null = null;
+
+// Un répertoire autorisé, ou un répertoire qui en contient un, ne doit jamais être supprimé, déplacé ni remplacé
+async function assertNotAllowedRoot(entryPath: string, action = 'delete'): Promise<void> {
+  allowedRootRealpaths ??= Promise.all(allowedDirectories.map(dir => wslRealpath(dir).then(normalizePath, () => dir)));
+  const roots = [...allowedDirectories, ...await allowedRootRealpaths].map(root => root.replace(/\/+$/, '') || '/');
+  if (roots.some(root => root === entryPath || root.startsWith(`${entryPath}/`))) {
+    throw new Error(`Refusing to ${action} ${entryPath}: it is an allowed directory or contains one`);
+  }
+}
+
+// Lecture par parties : taille par défaut et recul maximal pour retomber sur un saut de ligne
+const DEFAULT_PART_SIZE = 95000;
+const MAX_BACKTRACK = 300;
+
+// Schema definitions
+const ReadFileArgsSchema = z.object({
+  path: z.string(),
+  startLine: z.number().int().positive().optional().describe('First line to read (1-based, inclusive)'),
+  endLine: z.number().int().positive().optional().describe('Last line to read (1-based, inclusive)'),
+  head: z.number().int().positive().optional().describe('Read only the first N lines'),
+  tail: z.number().int().positive().optional().describe('Read only the last N lines'),
+  offset: z.number().int().min(0).optional().describe('Byte offset to start reading from (0-based)'),
+  length: z.number().int().positive().optional().describe('Number of bytes to read from offset'),
+  lineNumbers: z.boolean().default(false).describe('Prefix each line with its line number')
+});
+
+const ReadMediaFileArgsSchema = z.object({
+  path: z.string(),
+});
+
+const ReadMultipleFilesArgsSchema = z.object({
+  paths: z.array(z.string()),
+});
+
+const WriteFileArgsSchema = z.object({
+  path: z.string(),
+  content: z.string(),
+  mode: z.string().regex(/^[0-7]{3,4}$/).optional().describe('Octal permissions to apply to the file (e.g. "644"). Existing permissions are kept by default'),
+  append: z.boolean().default(false).describe('Append content to the end of the file instead of replacing it'),
+  createOnly: z.boolean().default(false).describe('Fail if the file already exists instead of overwriting it'),
+  expectedHash: z.string().optional().describe('Hash returned by a previous read; the write fails with a conflict if the file has changed since'),
+  lineEnding: z.enum(['lf', 'crlf', 'preserve']).default('preserve').describe('Line endings to write: "preserve" converts the content to the dominant line ending of the existing file and keeps its UTF-8 BOM (new files are written as given), "lf" or "crlf" converts every line')
+});
+
+const EditOperation = z.object({
+  oldText: z.string().describe('Text to search for - must match exactly'),
+  newText: z.string().describe('Text to replace with'),
+  occurrence: z.number().int().positive().optional().describe('Which match to replace (1-based) when oldText occurs several times'),
+  replaceAll: z.boolean().optional().describe('Replace every match of oldText'),
+  startLine: z.number().int().positive().optional().describe('Line number near the intended match, to pick the closest one')
+}).refine(edit => [edit.occurrence !== undefined, edit.replaceAll === true, edit.startLine !== undefined].filter(Boolean).length <= 1, {
+  message: 'Use only one of occurrence, replaceAll or startLine'
+});
+
+const EditFileArgsSchema = z.object({
+  path: z.string(),
+  edits: z.array(EditOperation),
+  dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format'),
+  expectedHash: z.string().optional().describe('Hash returned by a previous read; the edit fails with a conflict if the file has changed since'),
+  lineEnding: z.enum(['lf', 'crlf', 'preserve']).default('preserve').describe('Line endings to write: "preserve" keeps the original ones line by line (new lines use the dominant style), "lf" or "crlf" converts every line')
+});
+
+const EditFilesArgsSchema = z.object({
+  files: z.array(z.object({
+    path: z.string(),
+    edits: z.array(EditOperation),
+    expectedHash: z.string().optional().describe('Hash returned by a previous read of this file; the transaction fails with a conflict if it has changed since')
+  })).min(1).describe('Files to edit, each path at most once, with the same edits as edit_file'),
+  dryRun: z.boolean().default(false).describe('Preview the combined diff without writing anything'),
+  lineEnding: z.enum(['lf', 'crlf', 'preserve']).default('preserve').describe('Line endings to write, as for edit_file')
+});
+
+const ApplyPatchArgsSchema = z.object({
+  patch: z.string().describe('Unified diff (diff -u or git diff) for one or more files. /dev/null as the original or new file creates or deletes it; git "rename from"/"rename to" headers rename it'),
+  path: z.string().optional().describe('Directory that relative paths in the patch are resolved against (git a/ and b/ prefixes are stripped)'),
+  fuzz: z.number().int().min(0).default(2).describe('Number of context lines at the start and end of a hunk that may be ignored when it does not match exactly'),
+  dryRun: z.boolean().default(false).describe('Check that the patch applies and preview the result without writing anything')
+});
+
+const CreateDirectoryArgsSchema = z.object({
+  path: z.string(),
+});
+
+const ListDirectoryArgsSchema = z.object({
+  path: z.string(),
+  sortBy: z.enum(['name', 'size', 'mtime']).default('name').describe('Sort entries by name, size (largest first) or modification time (newest first)'),
+  showHidden: z.boolean().default(true).describe('Include entries whose name starts with a dot')
+});
+
+const ListDirectoryWithSizesArgsSchema = ListDirectoryArgsSchema;
+
+const DirectoryTreeArgsSchema = z.object({
+  path: z.string(),
+  maxDepth: z.number().int().positive().optional().describe('Maximum depth to descend (1 = direct children only)'),
+  excludePatterns: z.array(z.string()).optional().default([]).describe('Glob patterns of entries to leave out (matched against names, or against relative paths when they contain a "/")'),
+  respectGitignore: z.boolean().default(false).describe('Leave out .git directories at any depth and the entries ignored by git (.gitignore, .git/info/exclude, global excludes)'),
+  includeSizes: z.boolean().default(false).describe('Include the size of each file in bytes'),
+  maxEntries: z.number().int().positive().default(1000).describe('Maximum number of entries to return; shallower entries are kept first'),
+  format: z.enum(['json', 'ascii']).default('json').describe('Output text as a JSON structure or as a compact ASCII tree')
+});
+
+const MoveFileArgsSchema = z.object({
+  source: z.string().optional().describe('Entry to move (a symbolic link is moved itself)'),
+  destination: z.string().optional().describe('New path of the entry, never a directory to move it into'),
+  moves: z.array(z.object({
+    source: z.string(),
+    destination: z.string()
+  })).min(1).optional().describe('Several moves applied all together or not at all, instead of source and destination'),
+  overwrite: z.boolean().default(false).describe('Replace an existing destination file, symlink or empty directory instead of failing')
+}).refine(
+  args => args.moves !== undefined ? args.source === undefined && args.destination === undefined : args.source !== undefined && args.destination !== undefined,
+  { message: 'Provide either source and destination, or moves' }
+);
+
+const SearchFilesArgsSchema = z.object({
+  path: z.string(),
+  pattern: z.string().describe('Glob pattern (**, *, ?, [abc], {a,b}) matched against names, or against paths relative to path when it contains a "/". A pattern without wildcards matches names containing it'),
+  excludePatterns: z.array(z.string()).optional().default([]).describe('Glob patterns of entries to leave out, with the same matching rules; excluded directories are skipped entirely'),
+  type: z.enum(['file', 'directory', 'symlink', 'any']).default('any').describe('Only return entries of this type'),
+  maxDepth: z.number().int().positive().optional().describe('Maximum depth to descend (1 = direct children only)'),
+  maxResults: z.number().int().positive().default(1000).describe('Maximum number of results to return'),
+  respectIgnoreFiles: z.boolean().default(true).describe('Skip files ignored by .gitignore, .ignore and global git excludes (only .ignore outside a git work tree)')
+});
+
+const CopyFileArgsSchema = z.object({
+  source: z.string(),
+  destination: z.string().describe('Path of the copy (not a directory to copy into)'),
+  overwrite: z.boolean().default(false).describe('Replace the destination file if it exists'),
+  preserveTimestamps: z.boolean().default(false).describe('Keep the access and modification times of the source'),
+  preserveMode: z.boolean().default(false).describe('Keep the exact permissions of the source (by default a new file gets them minus the umask, and a replaced file keeps its own)'),
+  dereferenceSymlinks: z.boolean().default(true).describe('When the source is a symbolic link, copy the file it points to instead of the link')
+});
+
+const CopyDirectoryArgsSchema = z.object({
+  source: z.string(),
+  destination: z.string().describe('Path of the copy (not a directory to copy into)'),
+  overwrite: z.boolean().default(false).describe('Copy into the destination directory if it exists, replacing files with the same name'),
+  preserveTimestamps: z.boolean().default(false).describe('Keep the access and modification times of the copied entries'),
+  preserveMode: z.boolean().default(false).describe('Keep the exact permissions of the copied entries'),
+  dereferenceSymlinks: z.boolean().default(false).describe('Copy the files and directories symbolic links point to instead of the links; every link must lead inside allowed directories')
+});
+
+const CreateSymlinkArgsSchema = z.object({
+  path: z.string().describe('Path of the link to create'),
+  target: z.string().describe('What the link points to, stored as given; a relative target is relative to the directory of the link'),
+  overwrite: z.boolean().default(false).describe('Replace an existing file or symbolic link at path (never a directory)')
+});
+
+const CreateHardlinkArgsSchema = z.object({
+  path: z.string().describe('Path of the new link'),
+  target: z.string().describe('Existing file to link to, on the same filesystem'),
+  overwrite: z.boolean().default(false).describe('Replace an existing file or symbolic link at path (never a directory)')
+});
+
+const ReadLinkArgsSchema = z.object({
+  path: z.string()
+});
+
+const DeleteFileArgsSchema = z.object({
+  path: z.string(),
+  dryRun: z.boolean().default(false).describe('Report what would be deleted without deleting it')
+});
+
+const DeleteDirectoryArgsSchema = z.object({
+  path: z.string(),
+  recursive: z.boolean().default(false).describe('Delete the directory with all its content; without it, only an empty directory can be deleted'),
+  dryRun: z.boolean().default(false).describe('Report what would be deleted without deleting it')
+});
+
+const ListTrashArgsSchema = z.object({
+  path: z.string().optional().describe('Only list items originally located at or under this path')
+});
+
+const RestoreFromTrashArgsSchema = z.object({
+  id: z.string().describe('Id of the trash item, as returned by delete_file, delete_directory or list_trash'),
+  destination: z.string().optional().describe('Where to restore the item instead of its original location')
+});
+
+const EmptyTrashArgsSchema = z.object({
+  ids: z.array(z.string()).optional().describe('Only delete these trash items'),
+  olderThanDays: z.number().positive().optional().describe('Only delete items moved to the trash more than this many days ago'),
+  dryRun: z.boolean().default(false).describe('Report what would be deleted without deleting it')
+});
+
+const GetFileInfoArgsSchema = z.object({
+  path: z.string(),
+});
+
+const ListWslDistrosArgsSchema = z.object({});
+
+const ReadFileByPartsArgsSchema = z.object({
+  path: z.string(),
+  part_number: z.number().int().positive().describe('Part number to read (1, 2, 3, etc.)'),
+  part_size: z.number().int().min(1000).default(DEFAULT_PART_SIZE).describe('Approximate size of each part in bytes')
+});
+
+const GetFilePartsInfoArgsSchema = z.object({
+  path: z.string(),
+  part_size: z.number().int().min(1000).default(DEFAULT_PART_SIZE).describe('Approximate size of each part in bytes')
+});
+
+const SearchInFilesArgsSchema = z.object({
+  path: z.string(),
+  pattern: z.string(),
+  caseInsensitive: z.boolean().default(false).describe('Case insensitive search'),
+  isRegex: z.boolean().default(false).describe('Treat pattern as regular expression (same as regexFlavor "extended")'),
+  regexFlavor: z.enum(['fixed', 'extended', 'pcre', 'javascript']).optional().describe('Pattern syntax: fixed string, POSIX extended regex, Perl-compatible regex (lookarounds, \\b...) or JavaScript regex. Overrides isRegex'),
+  multiline: z.boolean().default(false).describe('Let matches span several lines: \\n in the pattern matches a line break and ^/$ match at line boundaries. Runs on the JavaScript engine: extended and pcre patterns are translated (POSIX classes, \\< \\>, \\Q...\\E, (?P<name>...)) and constructs without an equivalent (possessive quantifiers, atomic groups, \\K, \\A, \\z...) are rejected'),
+  includePatterns: z.array(z.string()).optional().default([]).describe('File patterns to include (e.g., *.js, *.ts)'),
+  excludePatterns: z.array(z.string()).optional().default([]).describe('File patterns to exclude'),
+  maxResults: z.number().int().positive().default(1000).describe('Maximum number of matching lines to return (files in filesWithMatches and count modes)'),
+  contextLines: z.number().int().min(0).default(0).describe('Number of context lines before and after match'),
+  outputMode: z.enum(['content', 'filesWithMatches', 'count']).default('content').describe('Return matching lines, only the names of matching files, or the number of matching lines per file'),
+  respectIgnoreFiles: z.boolean().default(true).describe('Skip files ignored by .gitignore, .ignore and global git excludes (only .ignore outside a git work tree)')
+});
+
+const ReplaceInFilesArgsSchema = z.object({
+  path: z.string(),
+  pattern: z.string(),
+  replacement: z.string().describe('Replacement text; with a regex flavor, $1, $<name> and $& insert capture groups and the whole match'),
+  caseInsensitive: z.boolean().default(false).describe('Case insensitive search'),
+  isRegex: z.boolean().default(false).describe('Treat pattern as regular expression (same as regexFlavor "extended")'),
+  regexFlavor: z.enum(['fixed', 'extended', 'pcre', 'javascript']).optional().describe('Pattern syntax, as for search_in_files. Files are selected and replaced with the JavaScript engine: extended and pcre patterns are translated (POSIX classes, \\< \\>, \\Q...\\E, (?P<name>...)) and constructs without an equivalent (possessive quantifiers, atomic groups, \\K, \\A, \\z...) are rejected'),
+  multiline: z.boolean().default(false).describe('Let matches span several lines'),
+  includePatterns: z.array(z.string()).optional().default([]).describe('File patterns to include (e.g., *.js, *.ts)'),
+  excludePatterns: z.array(z.string()).optional().default([]).describe('File patterns to exclude'),
+  respectIgnoreFiles: z.boolean().default(true).describe('Skip files ignored by .gitignore, .ignore and global git excludes (only .ignore outside a git work tree)'),
+  maxFiles: z.number().int().positive().default(50).describe('Refuse to modify anything if more files than this match'),
+  dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format')
+});
+
+// Output schemas (structuredContent returned alongside the text content)
+const ReadFileOutputSchema = z.object({
+  path: z.string(),
+  mimeType: z.string(),
+  encoding: z.enum(['utf-8', 'base64']).describe('Encoding of content: utf-8 text or base64 for binary files'),
+  charset: z.enum(['utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1']).optional().describe('Character set the text was decoded from, when the file is not UTF-8'),
+  content: z.string(),
+  totalBytes: z.number(),
+  totalLines: z.number(),
+  firstLine: z.number().optional().describe('First line returned (1-based), for line-based reads'),
+  lastLine: z.number().optional().describe('Last line returned (1-based), for line-based reads'),
+  startByte: z.number().optional().describe('First byte returned (0-based), for byte range reads'),
+  endByte: z.number().optional().describe('End of the byte range returned (exclusive), for byte range reads'),
+  hash: z.string().describe('SHA-256 of the whole file content, to pass as expectedHash when writing')
+});
+
+const ReadMediaFileOutputSchema = z.object({
+  path: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  hash: z.string().describe('SHA-256 of the whole file content, to pass as expectedHash when writing')
+});
+
+const FilePartRangeOutput = z.object({
+  partNumber: z.number(),
+  startByte: z.number(),
+  endByte: z.number().describe('Exclusive'),
+  firstLine: z.number(),
+  lastLine: z.number()
+});
+
+const ReadFileByPartsOutputSchema = FilePartRangeOutput.extend({
+  path: z.string(),
+  totalParts: z.number(),
+  totalBytes: z.number(),
+  totalLines: z.number(),
+  content: z.string(),
+  hash: z.string().describe('SHA-256 of the whole file content, to pass as expectedHash when writing')
+});
+
+const GetFilePartsInfoOutputSchema = z.object({
+  path: z.string(),
+  totalBytes: z.number(),
+  totalLines: z.number(),
+  partSize: z.number(),
+  totalParts: z.number(),
+  parts: z.array(FilePartRangeOutput)
+});
+
+const ReadMultipleFilesOutputSchema = z.object({
+  files: z.array(z.object({
+    path: z.string(),
+    content: z.string().optional().describe('Text content, absent for binary files and errors'),
+    mimeType: z.string().optional(),
+    charset: z.enum(['utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1']).optional().describe('Character set the text was decoded from, when the file is not UTF-8'),
+    size: z.number().optional(),
+    hash: z.string().optional().describe('SHA-256 of the file content, to pass as expectedHash when writing'),
+    error: z.string().optional()
+  }))
+});
+
+const WriteFileOutputSchema = z.object({
+  path: z.string(),
+  bytesWritten: z.number(),
+  operation: z.enum(['write', 'append', 'create']),
+  hash: z.string().describe('SHA-256 of the new file content'),
+  lineEnding: z.enum(['lf', 'crlf']).describe('Dominant line ending of the written content'),
+  bom: z.boolean().describe('Whether the written content starts with a UTF-8 BOM')
+});
+
+const EditFileOutputSchema = z.object({
+  path: z.string(),
+  diff: z.string(),
+  dryRun: z.boolean(),
+  hash: z.string().describe('SHA-256 of the file content after the edit (current content for a dry run)'),
+  fuzzyEdits: z.array(z.object({
+    edit: z.number().describe('1-based index of the edit'),
+    lines: z.array(z.number()).describe('Lines where it matched')
+  })).describe('Edits whose oldText only matched when ignoring leading and trailing whitespace'),
+  lineEnding: z.enum(['lf', 'crlf']).describe('Dominant line ending of the resulting file'),
+  bom: z.boolean().describe('Whether the resulting file starts with a UTF-8 BOM')
+});
+
+const EditFilesOutputSchema = z.object({
+  dryRun: z.boolean(),
+  files: z.array(z.object({
+    path: z.string(),
+    hash: z.string().describe('SHA-256 of the file content after the edits (current content for a dry run)'),
+    fuzzyEdits: EditFileOutputSchema.shape.fuzzyEdits,
+    lineEnding: EditFileOutputSchema.shape.lineEnding,
+    bom: EditFileOutputSchema.shape.bom
+  })),
+  diff: z.string().describe('Combined unified diff of all files')
+});
+
+const ApplyPatchOutputSchema = z.object({
+  dryRun: z.boolean(),
+  applied: z.boolean().describe('Whether the whole patch applies; when false, no file was written and the failing hunks or files carry an error'),
+  files: z.array(z.object({
+    path: z.string(),
+    from: z.string().optional().describe('Original path of a renamed file'),
+    operation: z.enum(['modify', 'create', 'delete', 'rename']),
+    error: z.string().optional().describe('Why the file cannot be patched (missing file, existing destination...)'),
+    hunks: z.array(z.object({
+      hunk: z.number().describe('1-based index of the hunk in the file'),
+      header: z.string(),
+      applied: z.boolean(),
+      line: z.number().optional().describe('Line of the original file where the hunk was applied'),
+      offset: z.number().optional().describe('Difference between that line and the one announced by the hunk header'),
+      fuzz: z.number().optional().describe('Context lines ignored to apply the hunk'),
+      error: z.string().optional()
+    }))
+  })),
+  diff: z.string().describe('Combined unified diff of the changes')
+});
+
+const CreateDirectoryOutputSchema = z.object({
+  path: z.string()
+});
+
+const ListDirectoryOutputSchema = z.object({
+  path: z.string(),
+  entries: z.array(z.object({
+    name: z.string(),
+    type: z.enum(['file', 'directory', 'symlink', 'fifo', 'socket', 'block-device', 'char-device', 'other']),
+    size: z.number(),
+    modified: z.string().describe('ISO 8601 timestamp'),
+    permissions: z.string().describe('Octal permission bits'),
+    linkTarget: z.string().optional().describe('Target of a symbolic link')
+  }))
+});
+
+const ListDirectoryWithSizesOutputSchema = ListDirectoryOutputSchema.extend({
+  totalFiles: z.number().describe('Number of regular files'),
+  totalDirectories: z.number(),
+  totalSymlinks: z.number(),
+  totalOther: z.number().describe('Number of FIFOs, sockets and devices'),
+  totalSize: z.number().describe('Combined size of the regular files in bytes')
+});
+
+const TreeEntryOutput: z.ZodType<TreeEntry> = z.lazy(() => z.object({
+  name: z.string(),
+  type: z.enum(['file', 'directory']),
+  size: z.number().optional(),
+  children: z.array(TreeEntryOutput).optional(),
+  omittedEntries: z.number().optional()
+}));
+
+const DirectoryTreeOutputSchema = z.object({
+  path: z.string(),
+  tree: z.array(TreeEntryOutput),
+  totalEntries: z.number(),
+  omittedEntries: z.number().describe('Number of entries left out because of maxEntries')
+});
+
+const MoveOutput = z.object({
+  source: z.string(),
+  destination: z.string().describe('Final resolved path of the entry'),
+  type: z.enum(['file', 'directory', 'symlink']),
+  overwritten: z.boolean(),
+  crossFilesystem: z.boolean().describe('The entry was copied to another filesystem, then removed from the source')
+});
+
+const MoveFileOutputSchema = z.object({
+  source: z.string().optional(),
+  destination: z.string().optional(),
+  moves: z.array(MoveOutput)
+});
+
+const CopyFileOutputSchema = z.object({
+  source: z.string(),
+  destination: z.string(),
+  files: z.number(),
+  directories: z.number(),
+  symlinks: z.number(),
+  other: z.number().describe('Copied entries of another type (fifo, socket, device)'),
+  totalBytes: z.number().describe('Combined size of the copied files'),
+  overwritten: z.boolean().describe('Whether the destination existed: replaced for a file, merged into for a directory')
+});
+
+const CopyDirectoryOutputSchema = CopyFileOutputSchema;
+
+const CreateSymlinkOutputSchema = z.object({
+  path: z.string(),
+  target: z.string().describe('Target stored in the link'),
+  resolvedTarget: z.string().describe('Path the link leads to'),
+  targetExists: z.boolean()
+});
+
+const CreateHardlinkOutputSchema = z.object({
+  path: z.string(),
+  target: z.string(),
+  links: z.number().describe('Number of hard links the file now has')
+});
+
+const ReadLinkOutputSchema = z.object({
+  path: z.string(),
+  target: z.string().describe('Target stored in the link, relative or absolute'),
+  resolvedTarget: z.string().nullable().describe('Path the link leads to, null for a loop of links'),
+  targetExists: z.boolean(),
+  withinAllowedDirectories: z.boolean()
+});
+
+const TrashEntryOutput = z.object({
+  id: z.string(),
+  originalPath: z.string(),
+  type: z.enum(['file', 'directory', 'symlink', 'fifo', 'socket', 'block-device', 'char-device', 'other']),
+  size: z.number().describe('Total size of the files in bytes'),
+  entries: z.number().describe('Number of entries, the item included'),
+  deletedAt: z.string().describe('ISO 8601 timestamp')
+});
+
+const DeleteFileOutputSchema = z.object({
+  path: z.string(),
+  type: TrashEntryOutput.shape.type,
+  size: z.number().describe('Total size of the deleted files in bytes'),
+  entries: z.number().describe('Number of deleted entries, the path itself included'),
+  dryRun: z.boolean(),
+  trashId: z.string().optional().describe('Id of the trash item, to restore it with restore_from_trash')
+});
+
+const DeleteDirectoryOutputSchema = DeleteFileOutputSchema;
+
+const ListTrashOutputSchema = z.object({
+  trashDirectory: z.string(),
+  items: z.array(TrashEntryOutput),
+  totalSize: z.number().describe('Combined size of the listed items in bytes')
+});
+
+const RestoreFromTrashOutputSchema = z.object({
+  id: z.string(),
+  originalPath: z.string(),
+  path: z.string().describe('Where the item was restored')
+});
+
+const EmptyTrashOutputSchema = z.object({
+  dryRun: z.boolean(),
+  removed: z.array(TrashEntryOutput),
+  freedBytes: z.number()
+});
+
+const SearchFilesOutputSchema = z.object({
+  path: z.string(),
+  pattern: z.string(),
+  matches: z.array(z.string()),
+  omitted: z.number().describe('Number of matches left out because of maxResults')
+});
+
+const SearchContextLineOutput = z.object({
+  line: z.number(),
+  text: z.string()
+});
+
+const SearchInFilesOutputSchema = z.object({
+  path: z.string(),
+  pattern: z.string(),
+  outputMode: z.enum(['content', 'filesWithMatches', 'count']),
+  files: z.array(z.object({
+    file: z.string(),
+    matchCount: z.number().optional().describe('Number of matching lines in the file (content and count modes)'),
+    hits: z.array(z.object({
+      line: z.number(),
+      column: z.number().describe('1-based column of the first match in the line'),
+      endLine: z.number().describe('Line where the match ends'),
+      endColumn: z.number().describe('1-based column just after the last character of the match'),
+      text: z.string().describe('Lines line to endLine'),
+      before: z.array(SearchContextLineOutput),
+      after: z.array(SearchContextLineOutput)
+    })).optional().describe('Matching lines kept within maxResults (content mode)')
+  })),
+  totalMatches: z.number().optional().describe('Number of matching lines found (content and count modes), including those left out by maxResults'),
+  omitted: z.number().describe('Results left out because of maxResults: matching lines in content mode, files otherwise'),
+  warnings: z.array(z.string()).describe('Messages reported by grep, such as unreadable or binary files')
+});
+
+const ReplaceInFilesOutputSchema = z.object({
+  path: z.string(),
+  pattern: z.string(),
+  dryRun: z.boolean(),
+  files: z.array(z.object({
+    file: z.string(),
+    replacements: z.number()
+  })),
+  totalReplacements: z.number(),
+  diff: z.string().describe('Combined unified diff of all modified files'),
+  warnings: z.array(z.string())
+});
+
+const GetFileInfoOutputSchema = z.object({
+  path: z.string(),
+  size: z.number(),
+  created: z.string().describe('ISO 8601 timestamp'),
+  modified: z.string().describe('ISO 8601 timestamp'),
+  accessed: z.string().describe('ISO 8601 timestamp'),
+  isDirectory: z.boolean(),
+  isFile: z.boolean(),
+  isSymbolicLink: z.boolean(),
+  linkTarget: z.string().optional().describe('Target stored in the link, for a symbolic link'),
+  permissions: z.string()
+});
+
+const ListAllowedDirectoriesOutputSchema = z.object({
+  directories: z.array(z.string())
+});
+
+const ListWslDistributionsOutputSchema = z.object({
+  distributions: z.array(z.object({
+    name: z.string(),
+    state: z.string(),
+    version: z.string(),
+    isDefault: z.boolean(),
+    isActive: z.boolean()
+  })),
+  current: z.string().nullable().describe('Distribution the server runs its commands in')
+});
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+type ToolOutput = NonNullable<z.infer<typeof ToolSchema.shape.outputSchema>>;
+
+// Server setup
+const server = new Server({
+  name: "secure-filesystem-server",
+  version: "1.3.0",
+}, {
+  capabilities: {
+    tools: {},
+  },
+});
+
+// Tool implementations
+
+// Échapper les métacaractères glob pour une comparaison littérale dans find -path
+function escapeGlob(value: string): string {
+  return value.replace(/[[\]*?\\]/g, '\\$&');
+}
+
+// Comparaison de chemins relatifs composant par composant, indépendante de la locale
+function comparePaths(a: string, b: string): number {
+  const partsA = a.split('/');
+  const partsB = b.split('/');
+  for (let i = 0; i < Math.min(partsA.length, partsB.length); i++) {
+    if (partsA[i] !== partsB[i])
+      return partsA[i] < partsB[i] ? -1 : 1;
+  }
+  return partsA.length - partsB.length;
+}
+
+/**
+ * Chemins ignorés par git sous rootPath (relatifs à rootPath).
+ * ".gitignore" inclut aussi .git/info/exclude et les exclusions globales (core.excludesFile) ;
+ * les autres noms (".ignore"...) sont lus comme fichiers d'exclusion par répertoire.
+ * Les répertoires entièrement ignorés sont renvoyés sans leur contenu, ce qui permet de ne pas les parcourir.
+ * Hors dépôt (ou sans git), les mêmes fichiers d'exclusion sont lus par readIgnoreFiles, pour un résultat
+ * identique à celui de git (sans les exclusions propres au dépôt ni les exclusions globales).
+ */
+async function listIgnoredPaths(
+  rootPath: string,
+  ignoreFiles: string[] = ['.gitignore']
+): Promise<{ directories: string[]; files: Set<string> }> {
+  const wslPath = toWslPath(rootPath);
+  const directories: string[] = [];
+  const files = new Set<string>();
+  // git ne lit qu'un seul nom de fichier d'exclusion par répertoire : une passe par nom
+  for (const ignoreFile of ignoreFiles) {
+    const excludeArgs = ignoreFile === '.gitignore' ? ['--exclude-standard'] : [`--exclude-per-directory=${ignoreFile}`];
+    const { stdout, exitCode } = await execWslCommandRaw(
+      ['git', '-C', wslPath, 'ls-files', '-z', '--others', '--ignored', ...excludeArgs, '--directory'],
+      { allowedExitCodes: [0, 1, 126, 127, 128] }
+    );
+    if (exitCode !== 0) {
+      return await readIgnoreFiles(rootPath, ignoreFiles);
+    }
+    for (const entry of stdout.toString('utf-8').split('\0')) {
+      if (!entry)
+        continue;
+      if (entry.endsWith('/')) {
+        directories.push(entry.slice(0, -1));
+      } else {
+        files.add(entry);
+      }
+    }
+  }
+  return { directories, files };
+}
+
+interface IgnoreRule {
+  // Répertoire du fichier d'exclusion, relatif à la racine ('' pour la racine)
+  base: string;
+  regExp: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  // Motif contenant un / : comparé au chemin relatif à base plutôt qu'au nom de l'entrée
+  matchPath: boolean;
+}
+
+// Règles d'un fichier d'exclusion, avec la syntaxe de .gitignore
+function parseIgnoreRules(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Espaces finaux ignorés sauf s'ils sont échappés, # en début de ligne pour un commentaire
+    let line = rawLine.replace(/(?<!\\)[ \t]+$/, '');
+    if (line === '' || line.startsWith('#'))
+      continue;
+    const negated = line.startsWith('!');
+    if (negated || line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+    const directoryOnly = line.endsWith('/');
+    line = line.replace(/\/+$/, '');
+    if (line === '')
+      continue;
+    // Un / au début ou au milieu ancre le motif au répertoire du fichier d'exclusion
+    const matchPath = line.includes('/');
+    // Les accolades n'ont pas de sens particulier dans .gitignore
+    const glob = line.replace(/^\/+/, '').replace(/\\.|\{/g, token => token === '{' ? '\\{' : token);
+    rules.push({ base, regExp: new RegExp(`^${globToRegExpSource(glob)}$`), negated, directoryOnly, matchPath });
+  }
+  return rules;
+}
+
+/**
+ * Chemins ignorés sous rootPath par les fichiers d'exclusion nommés ignoreFiles, lus sans git.
+ * Comme git, la dernière règle qui correspond l'emporte, les fichiers des sous-répertoires
+ * priment sur ceux de leurs parents et le contenu d'un répertoire ignoré ne peut pas être réinclus.
+ */
+async function readIgnoreFiles(rootPath: string, ignoreFiles: string[]): Promise<{ directories: string[]; files: Set<string> }> {
+  const wslPath = toWslPath(rootPath);
+  const base = wslPath === '/' ? '' : wslPath;
+  const directories: string[] = [];
+  const files = new Set<string>();
+
+  // Parcours sans les exclusions par défaut, un répertoire avant son contenu
+  const { stdout } = await execWslCommandRaw([
+    'find', wslPath, '-mindepth', '1',
+    ...findPruneArgs(defaultExcludes.map(name => ['-name', name])),
+    '-printf', '%y\\0%P\\0'
+  ]);
+  const fields = stdout.toString('utf-8').split('\0');
+  const found: { type: string; relativePath: string }[] = [];
+  for (let i = 0; i + 2 <= fields.length; i += 2) {
+    if (fields[i + 1]) {
+      found.push({ type: fields[i], relativePath: fields[i + 1] });
+    }
+  }
+
+  // Les fichiers des sous-répertoires après ceux de leurs parents ; dans un même répertoire, dans l'ordre de ignoreFiles
+  const ignoreFileIndex = (relativePath: string) => ignoreFiles.indexOf(relativePath.slice(relativePath.lastIndexOf('/') + 1));
+  const ruleFiles = found
+    .filter(entry => entry.type === 'f' && ignoreFileIndex(entry.relativePath) !== -1)
+    .sort((a, b) => a.relativePath.split('/').length - b.relativePath.split('/').length
+      || ignoreFileIndex(a.relativePath) - ignoreFileIndex(b.relativePath));
+  if (ruleFiles.length === 0) {
+    return { directories, files };
+  }
+  const rules: IgnoreRule[] = [];
+  for (const { relativePath } of ruleFiles) {
+    const content = await wslReadFileBuffer(`${base}/${relativePath}`);
+    rules.push(...parseIgnoreRules(content.toString('utf-8'), relativePath.slice(0, Math.max(0, relativePath.lastIndexOf('/')))));
+  }
+
+  const ignoredDirectories = new Set<string>();
+  for (const { type, relativePath } of found) {
+    const slash = relativePath.lastIndexOf('/');
+    if (slash !== -1 && ignoredDirectories.has(relativePath.slice(0, slash))) {
+      if (type === 'd') {
+        ignoredDirectories.add(relativePath);
+      }
+      continue;
+    }
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.base && !relativePath.startsWith(`${rule.base}/`))
+        continue;
+      if (rule.directoryOnly && type !== 'd')
+        continue;
+      const subject = rule.matchPath ? relativePath.slice(rule.base ? rule.base.length + 1 : 0) : relativePath.slice(slash + 1);
+      if (rule.regExp.test(subject)) {
+        ignored = !rule.negated;
+      }
+    }
+    if (!ignored)
+      continue;
+    if (type === 'd') {
+      ignoredDirectories.add(relativePath);
+      directories.push(relativePath);
+    } else {
+      files.add(relativePath);
+    }
+  }
+  return { directories, files };
+}
+
+// Arguments find élaguant (-prune) les entrées correspondant à l'un des tests, à placer avant l'action
+function findPruneArgs(tests: string[][]): string[] {
+  if (tests.length === 0)
+    return [];
+  return ['(', ...tests.flatMap((test, i) => i === 0 ? test : ['-o', ...test]), ')', '-prune', '-o'];
+}
+
+/**
+ * Entrées sous rootPath (dans l'ordre de parcours de find, un répertoire avant son contenu),
+ * hors exclusions par défaut du serveur (--default-excludes) et, si respectIgnoreFiles est vrai,
+ * hors chemins ignorés par .gitignore, .ignore et les exclusions globales de git.
+ */
+async function listSearchableEntries(
+  rootPath: string,
+  options: { respectIgnoreFiles: boolean; maxDepth?: number; filesOnly?: boolean }
+): Promise<SearchableEntry[]> {
+  const wslPath = toWslPath(rootPath);
+  const base = wslPath === '/' ? '' : wslPath;
+  const ignored = options.respectIgnoreFiles ? await listIgnoredPaths(rootPath, ['.gitignore', '.ignore']) : null;
+
+  const findArgs = ['find', wslPath, '-mindepth', '1'];
+  if (options.maxDepth) {
+    findArgs.push('-maxdepth', String(options.maxDepth));
+  }
+  findArgs.push(...findPruneArgs([
+    ...defaultExcludes.map(name => ['-name', name]),
+    // Les dépôts imbriqués (sous-modules...) sont élagués comme celui de la racine
+    ...(options.respectIgnoreFiles ? [['-name', '.git']] : []),
+    ...(ignored?.directories ?? []).map(dir => ['-path', `${escapeGlob(base)}/${escapeGlob(dir)}`])
+  ]));
+  if (options.filesOnly) {
+    findArgs.push('-type', 'f');
+  }
+  // %y = type, %s = taille, %P = chemin relatif depuis le point de départ (NUL-délimités)
+  findArgs.push('-printf', '%y\\0%s\\0%P\\0');
+
+  const { stdout } = await execWslCommandRaw(findArgs);
+  const fields = stdout.toString('utf-8').split('\0');
+  const entries: SearchableEntry[] = [];
+  for (let i = 0; i + 3 <= fields.length; i += 3) {
+    const [type, size, relativePath] = fields.slice(i, i + 3);
+    if (!relativePath || ignored?.files.has(relativePath))
+      continue;
+    entries.push({
+      path: `${base}/${relativePath}`,
+      relativePath,
+      type: FIND_ENTRY_TYPES[type] ?? 'other',
+      size: parseInt(size, 10) || 0
+    });
+  }
+  return entries;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+// Conversion d'un motif glob en source d'expression régulière : **, *, ?, [classes], {a,b} et \ pour échapper
+function globToRegExpSource(glob: string): string {
+  let source = '';
+  let i = 0;
+  while (i < glob.length) {
+    const char = glob[i];
+    if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[i + 1]);
+      i += 2;
+    } else if (char === '*') {
+      let end = i;
+      while (glob[end] === '*')
+        end++;
+      // ** occupant tout un composant : zéro ou plusieurs répertoires
+      if (end - i > 1 && (i === 0 || glob[i - 1] === '/') && (end === glob.length || glob[end] === '/')) {
+        if (glob[end] === '/') {
+          source += '(?:.*/)?';
+          end++;
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+      i = end;
+    } else if (char === '?') {
+      source += '[^/]';
+      i++;
+    } else if (char === '[') {
+      let end = i + 1;
+      if (glob[end] === '!' || glob[end] === '^')
+        end++;
+      if (glob[end] === ']')
+        end++;
+      while (end < glob.length && glob[end] !== ']')
+        end++;
+      if (end >= glob.length) {
+        source += '\\[';
+        i++;
+        continue;
+      }
+      const negated = glob[i + 1] === '!' || glob[i + 1] === '^';
+      const members = glob.slice(i + (negated ? 2 : 1), end).replace(/\\/g, '\\\\');
+      source += `[${negated ? '^' : ''}${members}]`;
+      i = end + 1;
+    } else if (char === '{') {
+      // Rechercher l'accolade fermante correspondante et les virgules de premier niveau
+      const alternatives: string[] = [];
+      let depth = 0;
+      let start = i + 1;
+      let end = i;
+      for (let j = i + 1; j < glob.length; j++) {
+        if (glob[j] === '\\') {
+          j++;
+        } else if (glob[j] === '{') {
+          depth++;
+        } else if (glob[j] === '}' && depth > 0) {
+          depth--;
+        } else if (glob[j] === '}') {
+          alternatives.push(glob.slice(start, j));
+          end = j;
+          break;
+        } else if (glob[j] === ',' && depth === 0) {
+          alternatives.push(glob.slice(start, j));
+          start = j + 1;
+        }
+      }
+      if (end === i || alternatives.length < 2) {
+        source += '\\{';
+        i++;
+        continue;
+      }
+      source += `(?:${alternatives.map(globToRegExpSource).join('|')})`;
+      i = end + 1;
+    } else {
+      source += escapeRegExp(char);
+      i++;
+    }
+  }
+  return source;
+}
+
+// Un motif sans "/" s'applique au nom de l'entrée, sinon à son chemin relatif à la racine de la recherche
+function createGlobMatcher(pattern: string, caseInsensitive: boolean = true): (relativePath: string) => boolean {
+  const glob = pattern.replace(/^(\.?\/)+/, '');
+  const matchPath = glob.includes('/');
+  const regExp = new RegExp(`^${globToRegExpSource(glob.replace(/\/+$/, ''))}$`, caseInsensitive ? 'i' : '');
+  return relativePath => regExp.test(matchPath ? relativePath : relativePath.slice(relativePath.lastIndexOf('/') + 1));
+}
+
+async function buildDirectoryTree(rootPath: string, options: DirectoryTreeOptions = {}): Promise<DirectoryTreeResult> {
+  const wslPath = toWslPath(rootPath);
+  const base = wslPath === '/' ? '' : wslPath;
+  const ignored = options.respectGitignore ? await listIgnoredPaths(rootPath) : null;
+
+  // Les répertoires exclus sont élagués (-prune) : find ne descend jamais dedans
+  const pruneTests: string[][] = [
+    // .git est élagué à toutes les profondeurs (dépôts imbriqués, sous-modules), même hors dépôt
+    ...(options.respectGitignore ? [['-name', '.git']] : []),
+    ...(options.excludePatterns ?? []).map(pattern => pattern.includes('/')
+      ? ['-path', `${escapeGlob(base)}/${pattern.replace(/^\/+|\/+$/g, '')}`]
+      : ['-name', pattern]),
+    ...(ignored?.directories ?? []).map(dir => ['-path', `${escapeGlob(base)}/${escapeGlob(dir)}`])
+  ];
+  const findArgs = ['find', wslPath, '-mindepth', '1'];
+  if (options.maxDepth) {
+    findArgs.push('-maxdepth', String(options.maxDepth));
+  }
+  findArgs.push(...findPruneArgs(pruneTests));
+  // %y = type, %s = taille, %P = chemin relatif depuis le point de départ (NUL-délimités)
+  findArgs.push('-printf', '%y\\0%s\\0%P\\0');
+
+  const { stdout } = await execWslCommandRaw(findArgs);
+  const fields = stdout.toString('utf-8').split('\0');
+  const found: { type: string; size: number; relativePath: string; depth: number }[] = [];
+  for (let i = 0; i + 3 <= fields.length; i += 3) {
+    const [type, size, relativePath] = fields.slice(i, i + 3);
+    if (!relativePath || ignored?.files.has(relativePath))
+      continue;
+    found.push({ type, size: parseInt(size, 10) || 0, relativePath, depth: relativePath.split('/').length });
+  }
+
+  // Parcours en largeur : les entrées les moins profondes sont conservées en priorité,
+  // et un parent est toujours traité avant ses enfants
+  found.sort((a, b) => a.depth - b.depth || comparePaths(a.relativePath, b.relativePath));
+
+  const maxEntries = options.maxEntries ?? Infinity;
+  const tree: TreeEntry[] = [];
+  const pathMap = new Map<string, TreeEntry>();
+  let rootOmittedEntries = 0;
+  let kept = 0;
+
+  for (const item of found) {
+    const parts = item.relativePath.split('/');
+    const parentPath = parts.slice(0, -1).join('/');
+    const parent = parentPath ? pathMap.get(parentPath) : undefined;
+
+    if (kept >= maxEntries) {
+      // Compter l'entrée omise dans son parent conservé (les descendants d'un répertoire omis ne sont pas détaillés)
+      if (!parentPath) {
+        rootOmittedEntries++;
+      } else if (parent) {
+        parent.omittedEntries = (parent.omittedEntries ?? 0) + 1;
+      }
+      continue;
+    }
+    if (parentPath && !parent?.children)
+      continue;
+
+    const entry: TreeEntry = {
+      name: parts[parts.length - 1],
+      type: item.type === 'd' ? 'directory' : 'file'
+    };
+    if (options.includeSizes && entry.type === 'file') {
+      entry.size = item.size;
+    }
+    // Les répertoires à la profondeur maximale n'ont pas été parcourus : pas de tableau children
+    if (entry.type === 'directory' && (!options.maxDepth || item.depth < options.maxDepth)) {
+      entry.children = [];
+    }
+
+    pathMap.set(item.relativePath, entry);
+    if (parent) {
+      parent.children!.push(entry);
+    } else {
+      tree.push(entry);
+    }
+    kept++;
+  }
+
+  return {
+    tree,
+    totalEntries: found.length,
+    omittedEntries: found.length - kept,
+    rootOmittedEntries
+  };
+}
+
+// Représentation compacte de l'arbre, à la manière de la commande tree
+function formatTreeAscii(rootPath: string, result: DirectoryTreeResult, includeSizes: boolean = false): string {
+  const lines = [rootPath.endsWith('/') ? rootPath : `${rootPath}/`];
+
+  const render = (entries: TreeEntry[], omitted: number, prefix: string) => {
+    const items: (TreeEntry | number)[] = omitted > 0 ? [...entries, omitted] : entries;
+    items.forEach((item, i) => {
+      const isLast = i === items.length - 1;
+      const branch = prefix + (isLast ? '└── ' : '├── ');
+      if (typeof item === 'number') {
+        lines.push(`${branch}… ${item} more ${item === 1 ? 'entry' : 'entries'}`);
+        return;
+      }
+      if (item.type === 'directory') {
+        lines.push(`${branch}${item.name}/${item.children ? '' : ' …'}`);
+        render(item.children ?? [], item.omittedEntries ?? 0, prefix + (isLast ? '    ' : '│   '));
+      } else {
+        lines.push(`${branch}${item.name}${includeSizes && item.size !== undefined ? ` (${formatSize(item.size)})` : ''}`);
+      }
+    });
+  };
+
+  render(result.tree, result.rootOmittedEntries, '');
+  return lines.join('\n');
+}
+async function getFileStats(filePath: string): Promise<FileInfo> {
+  const stats = await wslStat(filePath);
+  return {
+    size: stats.size,
+    created: stats.birthtime,
+    modified: stats.mtime,
+    accessed: stats.atime,
+    isDirectory: stats.isDirectory(),
+    isFile: stats.isFile(),
+    isSymbolicLink: stats.isSymbolicLink(),
+    ...(stats.linkTarget !== undefined ? { linkTarget: stats.linkTarget } : {}),
+    permissions: stats.mode.toString(8).slice(-3),
+  };
+}
+
+async function searchFilesByName(
+  rootPath: string,
+  pattern: string,
+  options: SearchFilesByNameOptions = {}
+): Promise<{ matches: string[]; omitted: number }> {
+  const entries = await listSearchableEntries(rootPath, {
+    respectIgnoreFiles: options.respectIgnoreFiles ?? true,
+    maxDepth: options.maxDepth
+  });
+
+  // Un nom sans caractère spécial de glob correspond aux noms qui le contiennent
+  const isPlainName = !/[*?[\]{}\\/]/.test(pattern);
+  const matches = pattern === '' ? () => true : createGlobMatcher(isPlainName ? `*${pattern}*` : pattern);
+  const excludeMatchers = (options.excludePatterns ?? []).map(ex => createGlobMatcher(ex));
+
+  // Les entrées arrivent dans l'ordre de parcours : un répertoire exclu l'est avant son contenu
+  const excludedDirectories = new Set<string>();
+  const results: SearchableEntry[] = [];
+  for (const entry of entries) {
+    const parts = entry.relativePath.split('/');
+    if (parts.some((_, i) => i > 0 && excludedDirectories.has(parts.slice(0, i).join('/'))))
+      continue;
+    if (excludeMatchers.some(isExcluded => isExcluded(entry.relativePath))) {
+      if (entry.type === 'directory') {
+        excludedDirectories.add(entry.relativePath);
+      }
+      continue;
+    }
+    if (options.type && options.type !== 'any' && entry.type !== options.type)
+      continue;
+    if (matches(entry.relativePath)) {
+      results.push(entry);
+    }
+  }
+
+  results.sort((a, b) => comparePaths(a.relativePath, b.relativePath));
+  const maxResults = options.maxResults ?? Infinity;
+  return {
+    matches: results.slice(0, maxResults).map(entry => entry.path),
+    omitted: Math.max(0, results.length - maxResults)
+  };
+}
+
+// Sortie de grep -Z : enregistrements "fichier\0texte" terminés par un saut de ligne. Les fichiers sont
+// passés à grep en chemins absolus, qui peuvent eux-mêmes contenir des sauts de ligne : un enregistrement
+// commence par '/' et seul le texte qui suit le NUL s'arrête au premier saut de ligne
+function parseGrepRecords(output: string): { records: { file: string; text: string }[]; otherLines: string[] } {
+  const records: { file: string; text: string }[] = [];
+  const otherLines: string[] = [];
+  const lineEnd = (from: number) => {
+    const index = output.indexOf('\n', from);
+    return index === -1 ? output.length : index;
+  };
+  let position = 0;
+  while (position < output.length) {
+    const separatorIndex = output[position] === '/' ? output.indexOf('\0', position) : -1;
+    if (separatorIndex === -1) {
+      // Séparateur de contexte "--" ou message de grep
+      const end = lineEnd(position);
+      const line = output.slice(position, end);
+      if (line !== '' && line !== '--') {
+        otherLines.push(line);
+      }
+      position = end + 1;
+      continue;
+    }
+    const end = lineEnd(separatorIndex);
+    records.push({ file: output.slice(position, separatorIndex), text: output.slice(separatorIndex + 1, end) });
+    position = end + 1;
+  }
+  return { records, otherLines };
+}
+
+async function searchInFiles(
+  rootPath: string,
+  pattern: string,
+  options: SearchInFilesOptions = {}
+): Promise<SearchInFilesResult> {
+  const outputMode = options.outputMode ?? 'content';
+  const maxResults = options.maxResults ?? Infinity;
+  const contextLines = options.contextLines ?? 0;
+  
+  // Construire la commande grep
+  const grepOptions: string[] = [];
+  
+  // Options de base
+  grepOptions.push('-H'); // Toujours afficher le nom du fichier
+  grepOptions.push('-Z'); // Nom de fichier suivi d'un octet NUL (les noms peuvent contenir ':')
+  
+  // Options de correspondance, communes à la recherche et au comptage
+  const matchOptions: string[] = [];
+  if (options.caseInsensitive) {
+    matchOptions.push('-i');
+  }
+  
+  const regexFlavor = options.regexFlavor ?? 'fixed';
+  if (regexFlavor === 'pcre') {
+    matchOptions.push('-P'); // Perl-compatible regex
+  } else if (regexFlavor === 'extended') {
+    matchOptions.push('-E'); // Extended regex
+  } else {
+    matchOptions.push('-F'); // Fixed string
+  }
+  
+  // Patterns d'inclusion (chaque option est un argument distinct, sans interprétation par un shell)
+  if (options.includePatterns && options.includePatterns.length > 0) {
+    for (const pattern of options.includePatterns) {
+      matchOptions.push(`--include=${pattern}`);
+    }
+  }
+  
+  // Patterns d'exclusion
+  if (options.excludePatterns && options.excludePatterns.length > 0) {
+    for (const pattern of options.excludePatterns) {
+      matchOptions.push(`--exclude=${pattern}`);
+    }
+  }
+  
+  // Mode de sortie
+  if (outputMode === 'filesWithMatches') {
+    grepOptions.push('-l');
+  } else if (outputMode === 'count') {
+    grepOptions.push('-c');
+  } else {
+    grepOptions.push('-n'); // Numéros de ligne
+    if (contextLines > 0) {
+      grepOptions.push(`-C${contextLines}`);
+    }
+    // Un fichier ne peut pas fournir plus de maxResults correspondances : borne la taille de la sortie
+    // (les fichiers qui atteignent la limite sont recomptés ensuite)
+    if (options.maxResults) {
+      grepOptions.push(`-m${options.maxResults}`);
+    }
+  }
+  grepOptions.push(...matchOptions);
+  
+  try {
+    // Les répertoires exclus et les fichiers ignorés sont écartés avant grep ;
+    // le tri rend l'ordre des résultats (et donc la troncature) déterministe
+    const entries = await listSearchableEntries(rootPath, {
+      respectIgnoreFiles: options.respectIgnoreFiles ?? true,
+      filesOnly: true
+    });
+    entries.sort((a, b) => comparePaths(a.relativePath, b.relativePath));
+    if (entries.length === 0) {
+      return { files: [], totalMatches: outputMode === 'filesWithMatches' ? undefined : 0, omitted: 0, warnings: [] };
+    }
+    
+    // grep ne travaille que ligne par ligne : les motifs multilignes et la syntaxe JavaScript
+    // sont appliqués au contenu des fichiers
+    if (options.multiline || regexFlavor === 'javascript') {
+      return await searchInFileContents(entries, pattern, options);
+    }
+    
+    // La liste des fichiers est transmise via stdin à xargs, le pattern comme argument distinct (-e) :
+    // aucun échappement n'est nécessaire. Le code 1 de grep (aucune correspondance) est ramené à 0,
+    // xargs renvoie 123 en cas d'erreur partielle de grep (fichiers illisibles...).
+    // grep lit les fichiers en UTF-8 comme le moteur JavaScript : sans cela, "." vaut un octet et -i
+    // ignore la casse des seuls caractères ASCII
+    const runGrep = (args: string[], paths: string[]) => execWslCommandRaw(
+      ['xargs', '-0', '-r', 'sh', '-c', 'LC_ALL=C.UTF-8 grep "$@"; [ $? -le 1 ]', 'sh', ...args, '-e', pattern, '--'],
+      { input: paths.join('\0') + '\0', allowedExitCodes: [0, 123] }
+    );
+    // Sortie de grep -c : lignes "fichier\0N", y compris pour les fichiers sans correspondance (N = 0)
+    const parseCounts = (output: string) => parseGrepRecords(output).records.flatMap(({ file, text }) => {
+      const matchCount = parseInt(text, 10);
+      return matchCount > 0 ? [{ file, matchCount }] : [];
+    });
+    const result = await runGrep(grepOptions, entries.map(entry => entry.path));
+    
+    // Les messages d'erreur de grep arrivent sur stderr et sont rapportés à part
+    const warnings = result.stderr.toString('utf-8').split('\n').filter(line => line.trim() !== '');
+    const output = result.stdout.toString('utf-8');
+    
+    if (outputMode === 'filesWithMatches') {
+      const files = output.split('\0').filter(file => file !== '');
+      return {
+        files: files.slice(0, maxResults).map(file => ({ file })),
+        omitted: Math.max(0, files.length - maxResults),
+        warnings
+      };
+    }
+    
+    if (outputMode === 'count') {
+      const counts = parseCounts(output);
+      return {
+        files: counts.slice(0, maxResults),
+        totalMatches: counts.reduce((total, entry) => total + entry.matchCount, 0),
+        omitted: Math.max(0, counts.length - maxResults),
+        warnings
+      };
+    }
+    
+    // Lignes de correspondance "fichier\0N:texte", de contexte "fichier\0N-texte", séparateurs "--"
+    const groups: { file: string; lines: Map<number, string>; matches: number[] }[] = [];
+    const { records, otherLines } = parseGrepRecords(output);
+    // Autres messages de grep sur stdout ("Binary file ... matches")
+    warnings.push(...otherLines);
+    for (const record of records) {
+      const parsed = record.text.match(/^(\d+)([:-])(.*)$/);
+      if (!parsed) {
+        warnings.push(`${record.file}${record.text}`);
+        continue;
+      }
+      const file = record.file;
+      const [, lineNumber, separator, text] = parsed;
+      if (groups.length === 0 || groups[groups.length - 1].file !== file) {
+        groups.push({ file, lines: new Map(), matches: [] });
+      }
+      const group = groups[groups.length - 1];
+      const line = parseInt(lineNumber, 10);
+      group.lines.set(line, text);
+      if (separator === ':') {
+        group.matches.push(line);
+      }
+    }
+    
+    // -m a arrêté la lecture des fichiers qui atteignent maxResults : leurs correspondances sont
+    // recomptées pour que matchCount, totalMatches et omitted soient exacts
+    const capped = groups.filter(group => group.matches.length >= maxResults);
+    const exactCounts = new Map<string, number>();
+    if (capped.length > 0) {
+      const recount = await runGrep(['-H', '-Z', '-c', ...matchOptions], capped.map(group => group.file));
+      for (const { file, matchCount } of parseCounts(recount.stdout.toString('utf-8'))) {
+        exactCounts.set(file, matchCount);
+      }
+    }
+    
+    // Limite globale : seules les maxResults premières correspondances sont conservées
+    const files: SearchFileResult[] = [];
+    let totalMatches = 0;
+    let kept = 0;
+    for (const group of groups) {
+      const matchCount = exactCounts.get(group.file) ?? group.matches.length;
+      totalMatches += matchCount;
+      const hits: SearchHit[] = [];
+      for (const line of group.matches) {
+        if (kept >= maxResults)
+          break;
+        kept++;
+        const text = group.lines.get(line)!;
+        const contextRange = (from: number, to: number) => {
+          const context: SearchContextLine[] = [];
+          for (let l = Math.max(1, from); l <= to; l++) {
+            if (group.lines.has(l)) {
+              context.push({ line: l, text: group.lines.get(l)! });
+            }
+          }
+          return context;
+        };
+        const span = findMatchSpan(text, pattern, options);
+        hits.push({
+          line,
+          column: span.column,
+          endLine: line,
+          endColumn: span.endColumn,
+          text,
+          before: contextRange(line - contextLines, line - 1),
+          after: contextRange(line + 1, line + contextLines)
+        });
+      }
+      if (hits.length > 0) {
+        files.push({ file: group.file, matchCount, hits });
+      }
+    }
+    
+    return { files, totalMatches, omitted: Math.max(0, totalMatches - maxResults), warnings };
+  } catch (error: any) {
+    throw new Error(`Failed to search in files: ${error.message}`);
+  }
+}
+
+/**
+ * Remplacer un motif dans tous les fichiers correspondants sous rootPath.
+ * Les fichiers sont filtrés comme par search_in_files, la sélection et le remplacement sont effectués avec
+ * le moteur JavaScript ($1, $<nom> et $& dans replacement pour les expressions régulières).
+ * Un fichier modifié entre la lecture et l'écriture fait échouer l'ensemble avec un conflit.
+ */
+async function replaceInFiles(
+  rootPath: string,
+  pattern: string,
+  replacement: string,
+  options: ReplaceInFilesOptions = {}
+): Promise<ReplaceInFilesResult> {
+  const regExp = compileSearchRegExp(pattern, options);
+  // Les fichiers sont sélectionnés avec l'expression qui effectue le remplacement : grep et le moteur
+  // JavaScript ne lisent pas toujours un motif de la même façon (les chaînes fixes restent confiées à grep -F)
+  const search = await searchInFiles(
+    rootPath,
+    options.regexFlavor && options.regexFlavor !== 'fixed' ? regExp.source : pattern,
+    {
+      ...options,
+      ...(options.regexFlavor && options.regexFlavor !== 'fixed'
+        ? { regexFlavor: 'javascript', caseInsensitive: regExp.flags.includes('i') }
+        : {}),
+      outputMode: 'filesWithMatches',
+      maxResults: undefined
+    }
+  );
+  const maxFiles = options.maxFiles ?? 50;
+  if (search.files.length > maxFiles) {
+    throw new Error(
+      `Pattern matches ${search.files.length} files, more than maxFiles (${maxFiles}). ` +
+      `Narrow the search with includePatterns/excludePatterns or raise maxFiles.`
+    );
+  }
+
+  // Une chaîne fixe est remplacée telle quelle, sans interpréter les $
+  const replaceWith = options.regexFlavor && options.regexFlavor !== 'fixed' ? replacement : () => replacement;
+  const replaceAll = (text: string) => ({
+    text: text.replace(regExp, replaceWith as string),
+    count: text.match(regExp)?.length ?? 0
+  });
+
+  const warnings = [...search.warnings];
+  const files: { file: string; replacements: number }[] = [];
+  const writes: StagedWrite[] = [];
+  let diff = '';
+  for (const { file } of search.files) {
+    const buffer = await wslReadFileBuffer(file);
+    const original = decodeTextFile(buffer);
+    if (original === null) {
+      warnings.push(`${file}: binary or not valid UTF-8, skipped`);
+      continue;
+    }
+
+    let replacements = 0;
+    let modified: string;
+    if (options.multiline) {
+      ({ text: modified, count: replacements } = replaceAll(original));
+    } else {
+      // Comme grep, un motif ne couvre jamais plusieurs lignes
+      modified = original.split('\n').map(line => {
+        const result = replaceAll(line);
+        replacements += result.count;
+        return result.text;
+      }).join('\n');
+    }
+    if (replacements === 0 || modified === original)
+      continue;
+
+    files.push({ file, replacements });
+    writes.push({ path: file, content: modified, original: buffer, expectedHash: hashContent(buffer) });
+    diff += createUnifiedDiff(original, modified, file);
+  }
+
+  if (!options.dryRun && writes.length > 0) {
+    await writeFilesAtomically(writes);
+  }
+
+  return {
+    files,
+    totalReplacements: files.reduce((total, entry) => total + entry.replacements, 0),
+    diff,
+    warnings
+  };
+}
+
+// Sortie texte des résultats de search_in_files, regroupés par fichier
+function formatSearchResults(result: SearchInFilesResult, outputMode: SearchOutputMode): string {
+  if (result.files.length === 0) {
+    return "No matches found.";
+  }
+  if (outputMode === 'filesWithMatches') {
+    return result.files.map(entry => entry.file).join('\n');
+  }
+  if (outputMode === 'count') {
+    return result.files.map(entry => `${entry.file}: ${entry.matchCount}`).join('\n');
+  }
+  
+  return result.files.map(entry => {
+    // Fusionner correspondances et contexte, "--" entre deux blocs de contexte non contigus
+    const lines = new Map<number, string>();
+    const hasContext = (entry.hits ?? []).some(hit => hit.before.length > 0 || hit.after.length > 0);
+    for (const hit of entry.hits ?? []) {
+      for (const context of [...hit.before, ...hit.after]) {
+        if (!lines.has(context.line)) {
+          lines.set(context.line, `${context.line}-${context.text}`);
+        }
+      }
+    }
+    for (const hit of entry.hits ?? []) {
+      // Une correspondance sur plusieurs lignes est affichée ligne par ligne
+      hit.text.split('\n').forEach((text, i) => {
+        lines.set(hit.line + i, i === 0 ? `${hit.line}:${hit.column}:${text}` : `${hit.line + i}:${text}`);
+      });
+    }
+    const output: string[] = [`${entry.file} (${entry.matchCount} ${entry.matchCount === 1 ? 'match' : 'matches'})`];
+    let previous: number | undefined;
+    for (const line of [...lines.keys()].sort((a, b) => a - b)) {
+      if (hasContext && previous !== undefined && line > previous + 1) {
+        output.push('  --');
+      }
+      output.push(`  ${lines.get(line)}`);
+      previous = line;
+    }
+    return output.join('\n');
+  }).join('\n\n');
+}
+
+// Retrouver la position (colonnes 1-based, fin exclusive) de la première correspondance dans une ligne renvoyée par grep
+function findMatchSpan(
+  text: string,
+  pattern: string,
+  options: { caseInsensitive?: boolean; regexFlavor?: RegexFlavor }
+): { column: number; endColumn: number } {
+  // grep traite chaque ligne du pattern comme un motif distinct
+  const spans = pattern.split('\n').map(p => {
+    if (options.regexFlavor && options.regexFlavor !== 'fixed') {
+      // Approximation avec le moteur JavaScript, sur le motif traduit (null si la traduction est impossible)
+      try {
+        const regExp = compileSearchRegExp(p, { caseInsensitive: options.caseInsensitive, regexFlavor: options.regexFlavor });
+        const match = regExp.exec(text);
+        return match ? { start: match.index, end: match.index + match[0].length } : null;
+      } catch {
+        return null;
+      }
+    }
+    const start = options.caseInsensitive ? text.toLowerCase().indexOf(p.toLowerCase()) : text.indexOf(p);
+    return start !== -1 ? { start, end: start + p.length } : null;
+  }).filter(span => span !== null);
+  if (spans.length === 0) {
+    return { column: 1, endColumn: text.length + 1 };
+  }
+  const first = spans.reduce((a, b) => b.start < a.start || (b.start === a.start && b.end > a.end) ? b : a);
+  return { column: first.start + 1, endColumn: first.end + 1 };
+}
+
+// Taille maximale d'un fichier examiné par le moteur JavaScript, et volume lu par commande
+const MAX_SEARCH_FILE_SIZE = 10 * 1024 * 1024;
+const SEARCH_BATCH_BYTES = 16 * 1024 * 1024;
+const SEARCH_BATCH_FILES = 100;
+
+/**
+ * Contenu de plusieurs fichiers en une seule commande : "<taille>\n" suivi des octets pour chaque fichier,
+ * "-1\n" s'il est illisible ou dépasse la limite ($1).
+ * Un fichier raccourci entre-temps est complété par des zéros pour que le découpage reste exact.
+ */
+const READ_FILES_SCRIPT = [
+  'limit=$1; shift',
+  'for f do',
+  '  if [ -r "$f" ] && s=$(stat -c %s -- "$f" 2>/dev/null) && [ "$s" -le "$limit" ]; then',
+  '    echo "$s"',
+  '    { head -c "$s" -- "$f" 2>/dev/null; head -c "$s" /dev/zero; } | head -c "$s"',
+  '  else',
+  '    echo -1',
+  '  fi',
+  'done'
+].join('\n');
+
+// Classes POSIX des expressions entre crochets, en ASCII comme pour grep -P (PCRE sans propriétés Unicode)
+const POSIX_CHARACTER_CLASSES: Record<string, string> = {
+  alnum: '0-9A-Za-z',
+  alpha: 'A-Za-z',
+  blank: ' \\t',
+  cntrl: '\\x00-\\x1f\\x7f',
+  digit: '0-9',
+  graph: '\\x21-\\x7e',
+  lower: 'a-z',
+  print: '\\x20-\\x7e',
+  punct: '!-\\/:-@\\[-`{-~',
+  space: ' \\t\\n\\v\\f\\r',
+  upper: 'A-Z',
+  xdigit: '0-9A-Fa-f'
+};
+
+// Classes que grep -E étend aux lettres et ponctuations non ASCII dans la locale UTF-8 où il est lancé
+// (les chiffres d'autres écritures sont des lettres pour la glibc, [[:digit:]] ne couvre que 0-9)
+const UNICODE_CHARACTER_CLASSES: Record<string, RegExp> = {
+  alnum: /[\p{Alphabetic}\p{Nd}]/u,
+  alpha: /(?![0-9])[\p{Alphabetic}\p{Nd}]/u,
+  lower: /\p{Lowercase}/u,
+  punct: /(?![0-9A-Za-z])[\p{P}\p{S}]/u,
+  upper: /\p{Uppercase}/u
+};
+const unicodeClassMembers = new Map<string, string>();
+
+// Membres d'une classe POSIX pour grep -E, sous forme d'intervalles utilisables sans le drapeau u
+// (caractères du plan multilingue de base), calculés à la première utilisation
+function extendedClassMembers(name: string): string | undefined {
+  const property = UNICODE_CHARACTER_CLASSES[name];
+  if (!property)
+    return POSIX_CHARACTER_CLASSES[name];
+  let members = unicodeClassMembers.get(name);
+  if (members === undefined) {
+    const escape = (code: number) => `\\u${code.toString(16).padStart(4, '0')}`;
+    members = '';
+    for (let code = 0; code <= 0xffff; code++) {
+      if ((code >= 0xd800 && code <= 0xdfff) || !property.test(String.fromCharCode(code)))
+        continue;
+      const start = code;
+      while (code < 0xffff && property.test(String.fromCharCode(code + 1)))
+        code++;
+      members += start === code ? escape(start) : `${escape(start)}-${escape(code)}`;
+    }
+    unicodeClassMembers.set(name, members);
+  }
+  return members;
+}
+
+// Mots de grep -E (\w, \b, \< et \>) : lettres et chiffres de la locale UTF-8 et "_"
+function extendedWordAssertion(escape: string): string {
+  const word = `[${extendedClassMembers('alnum')}_]`;
+  switch (escape) {
+    case 'w': return word;
+    case 'W': return `[^${word.slice(1)}`;
+    case '<': return `(?<!${word})(?=${word})`;
+    case '>': return `(?<=${word})(?!${word})`;
+    case 'b': return `(?:(?<!${word})(?=${word})|(?<=${word})(?!${word}))`;
+    default: return `(?:(?<=${word})(?=${word})|(?<!${word})(?!${word}))`;
+  }
+}
+
+/**
+ * Traduire un motif POSIX étendu (grep -E) ou PCRE (grep -P) pour le moteur JavaScript, afin que
+ * les recherches multilignes et les remplacements lisent le motif comme grep.
+ * Les constructions sans équivalent JavaScript sont refusées plutôt que mal interprétées.
+ */
+function translateRegExpSource(pattern: string, flavor: 'extended' | 'pcre'): { source: string; caseInsensitive: boolean } {
+  const unsupported = (construct: string): never => {
+    throw new Error(
+      `${construct} is not supported with the JavaScript engine used for multiline search and replacements; ` +
+      `rewrite the pattern or use regexFlavor "javascript"`
+    );
+  };
+  let source = '';
+  let caseInsensitive = false;
+  let i = 0;
+  // (?i) en tête de motif PCRE équivaut au drapeau i
+  if (flavor === 'pcre' && pattern.startsWith('(?i)')) {
+    caseInsensitive = true;
+    i = 4;
+  }
+  // Le jeton précédent est-il un quantificateur (pour détecter les quantificateurs possessifs ou empilés)
+  let afterQuantifier = false;
+  let afterLazy = false;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    const quantifier = char === '*' || char === '+' || char === '?'
+      ? char
+      : char === '{' ? (flavor === 'extended' ? /^\{(\d+(,\d*)?|,\d+)\}/ : /^\{\d+(,\d*)?\}/).exec(pattern.slice(i))?.[0] : undefined;
+
+    if (quantifier !== undefined) {
+      if (afterQuantifier && flavor === 'pcre' && quantifier === '?' && !afterLazy) {
+        source += '?';
+        afterLazy = true;
+        i++;
+        continue;
+      }
+      if (afterQuantifier) {
+        unsupported(flavor === 'pcre' ? `Possessive quantifier "${quantifier}"` : `Repeated quantifier "${quantifier}"`);
+      }
+      // {,n} de GNU grep : JavaScript le lirait littéralement
+      source += quantifier.startsWith('{,') ? `{0${quantifier.slice(1)}` : quantifier;
+      afterQuantifier = true;
+      afterLazy = false;
+      i += quantifier.length;
+      continue;
+    }
+    afterQuantifier = false;
+    afterLazy = false;
+
+    if (char === '\\') {
+      const next = pattern[i + 1];
+      if (next === undefined) {
+        throw new Error('Trailing backslash in pattern');
+      }
+      if (flavor === 'extended') {
+        if (/[<>wWbB]/.test(next)) {
+          source += extendedWordAssertion(next);
+        } else if (next === '`' || next === '\'') {
+          unsupported(`Anchor "\\${next}"`);
+        } else if (/[sS1-9n]/.test(next)) {
+          // \n désigne le saut de ligne des recherches multilignes
+          source += `\\${next}`;
+        } else {
+          // Tout autre caractère échappé est littéral en POSIX
+          source += escapeRegExp(next);
+        }
+        i += 2;
+        continue;
+      }
+      if (next === 'Q') {
+        const end = pattern.indexOf('\\E', i + 2);
+        source += escapeRegExp(pattern.slice(i + 2, end === -1 ? undefined : end));
+        i = end === -1 ? pattern.length : end + 2;
+        continue;
+      }
+      if (next === 'E') {
+        i += 2;
+        continue;
+      }
+      if (next === 'h' || next === 'H') {
+        source += next === 'h' ? '[ \\t]' : '[^ \\t]';
+      } else if (next === 'e') {
+        source += '\\x1b';
+      } else if (next === 'a') {
+        source += '\\x07';
+      } else if ('AZzGKRXCNpPgLlUu'.includes(next) || (next === 'k' && pattern[i + 2] !== '<')
+        || ((next === 'x' || next === 'o') && pattern[i + 2] === '{')) {
+        unsupported(`Escape "\\${next}"`);
+      } else {
+        source += `\\${next}`;
+      }
+      i += 2;
+      continue;
+    }
+
+    if (char === '[') {
+      let end = i + 1;
+      let members = '[';
+      if (pattern[end] === '^') {
+        members += '^';
+        end++;
+      }
+      // "]" en première position est un membre de la classe
+      if (pattern[end] === ']') {
+        members += '\\]';
+        end++;
+      }
+      while (end < pattern.length && pattern[end] !== ']') {
+        if (pattern.startsWith('[:', end)) {
+          const close = pattern.indexOf(':]', end + 2);
+          const className = pattern.slice(end + 2, close);
+          const posixClass = close === -1 ? undefined
+            : flavor === 'extended' ? extendedClassMembers(className) : POSIX_CHARACTER_CLASSES[className];
+          if (posixClass === undefined) {
+            throw new Error(`Invalid character class in pattern: ${pattern.slice(end, close === -1 ? undefined : close + 2)}`);
+          }
+          members += posixClass;
+          end = close + 2;
+        } else if (pattern.startsWith('[=', end) || pattern.startsWith('[.', end)) {
+          unsupported(`Bracket expression "${pattern.slice(end, end + 2)}"`);
+        } else if (pattern[end] === '\\' && flavor === 'extended') {
+          // La barre oblique inverse est littérale entre crochets en POSIX
+          members += '\\\\';
+          end++;
+        } else if (pattern[end] === '\\') {
+          members += pattern.slice(end, end + 2);
+          end += 2;
+        } else {
+          members += pattern[end] === '[' ? '\\[' : pattern[end];
+          end++;
+        }
+      }
+      if (end >= pattern.length) {
+        throw new Error('Unmatched [ in pattern');
+      }
+      source += `${members}]`;
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '(' && pattern[i + 1] === '?' && flavor === 'pcre') {
+      const group = pattern.slice(i + 2);
+      const named = /^P?<([A-Za-z_]\w*)>/.exec(group);
+      const backReference = /^P=([A-Za-z_]\w*)\)/.exec(group);
+      if (/^(:|=|!|<=|<!)/.test(group)) {
+        source += '(?';
+        i += 2;
+      } else if (named) {
+        source += `(?<${named[1]}>`;
+        i += 2 + named[0].length;
+      } else if (backReference) {
+        source += `\\k<${backReference[1]}>`;
+        i += 2 + backReference[0].length;
+      } else {
+        unsupported(`Group "(?${group.slice(0, 1)}"`);
+      }
+      continue;
+    }
+
+    source += char;
+    i++;
+  }
+  return { source, caseInsensitive };
+}
+
+function compileSearchRegExp(pattern: string, options: SearchInFilesOptions): RegExp {
+  const flavor = options.regexFlavor ?? 'fixed';
+  try {
+    let source = pattern;
+    let caseInsensitive = options.caseInsensitive ?? false;
+    if (flavor === 'fixed') {
+      source = escapeRegExp(pattern);
+    } else if (flavor !== 'javascript') {
+      const translated = translateRegExpSource(pattern, flavor);
+      source = translated.source;
+      caseInsensitive ||= translated.caseInsensitive;
+    }
+    return new RegExp(source, 'g' + (caseInsensitive ? 'i' : '') + (options.multiline ? 'm' : ''));
+  } catch (error: any) {
+    throw new Error(`Invalid ${flavor} pattern: ${error.message}`);
+  }
+}
+
+// Correspondances d'une expression (drapeau g) dans un contenu, avec leur position en lignes et colonnes (1-based)
+function findMatchesInContent(
+  lines: string[],
+  regExp: RegExp,
+  multiline: boolean,
+  firstOnly: boolean
+): { line: number; column: number; endLine: number; endColumn: number }[] {
+  const spans: { line: number; column: number; endLine: number; endColumn: number }[] = [];
+
+  if (!multiline) {
+    // Une correspondance (la première) par ligne, comme grep
+    for (let i = 0; i < lines.length && !(firstOnly && spans.length > 0); i++) {
+      regExp.lastIndex = 0;
+      const match = regExp.exec(lines[i]);
+      if (match) {
+        spans.push({ line: i + 1, column: match.index + 1, endLine: i + 1, endColumn: match.index + match[0].length + 1 });
+      }
+    }
+    return spans;
+  }
+
+  const content = lines.join('\n');
+  const lineStarts = [0];
+  for (const line of lines.slice(0, -1)) {
+    lineStarts.push(lineStarts[lineStarts.length - 1] + line.length + 1);
+  }
+  // Ligne (1-based) contenant la position index
+  const lineAt = (index: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (lineStarts[middle] <= index) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low + 1;
+  };
+
+  regExp.lastIndex = 0;
+  for (let match = regExp.exec(content); match; match = regExp.exec(content)) {
+    const line = lineAt(match.index);
+    // La fin est rattachée à la ligne du dernier caractère de la correspondance
+    const last = match[0].length > 0 ? match.index + match[0].length - 1 : match.index;
+    const endLine = lineAt(last);
+    spans.push({
+      line,
+      column: match.index - lineStarts[line - 1] + 1,
+      endLine,
+      endColumn: match[0].length > 0 ? last - lineStarts[endLine - 1] + 2 : match.index - lineStarts[line - 1] + 1
+    });
+    if (firstOnly)
+      break;
+    if (match[0].length === 0) {
+      regExp.lastIndex++;
+    }
+  }
+  return spans;
+}
+
+/**
+ * Recherche avec le moteur JavaScript sur le contenu des fichiers, lu par lots depuis la distribution.
+ * Utilisée pour les motifs multilignes et la syntaxe JavaScript ; les fichiers binaires sont ignorés.
+ */
+async function searchInFileContents(
+  entries: SearchableEntry[],
+  pattern: string,
+  options: SearchInFilesOptions
+): Promise<SearchInFilesResult> {
+  const outputMode = options.outputMode ?? 'content';
+  const maxResults = options.maxResults ?? Infinity;
+  const contextLines = options.contextLines ?? 0;
+  const regExp = compileSearchRegExp(pattern, options);
+  const warnings: string[] = [];
+
+  // Mêmes filtres que --include/--exclude de grep
+  const includeMatchers = (options.includePatterns ?? []).map(include => createGlobMatcher(include, false));
+  const excludeMatchers = (options.excludePatterns ?? []).map(exclude => createGlobMatcher(exclude, false));
+  const candidates = entries.filter(entry => {
+    if (includeMatchers.length > 0 && !includeMatchers.some(matches => matches(entry.relativePath)))
+      return false;
+    if (excludeMatchers.some(matches => matches(entry.relativePath)))
+      return false;
+    if (entry.size !== undefined && entry.size > MAX_SEARCH_FILE_SIZE) {
+      warnings.push(`${entry.path}: larger than ${formatSize(MAX_SEARCH_FILE_SIZE)}, skipped`);
+      return false;
+    }
+    return true;
+  });
+
+  // Lots limités en nombre de fichiers et en volume
+  const batches: SearchableEntry[][] = [];
+  let batchBytes = 0;
+  for (const entry of candidates) {
+    const current = batches[batches.length - 1];
+    if (!current || current.length >= SEARCH_BATCH_FILES || batchBytes + (entry.size ?? 0) > SEARCH_BATCH_BYTES) {
+      batches.push([entry]);
+      batchBytes = entry.size ?? 0;
+    } else {
+      current.push(entry);
+      batchBytes += entry.size ?? 0;
+    }
+  }
+
+  const files: SearchFileResult[] = [];
+  let totalMatches = 0;
+  let matchingFiles = 0;
+  for (const batch of batches) {
+    const { stdout } = await execWslCommandRaw(
+      ['sh', '-c', READ_FILES_SCRIPT, 'sh', String(MAX_SEARCH_FILE_SIZE), ...batch.map(entry => entry.path)]
+    );
+    let offset = 0;
+    for (const entry of batch) {
+      const headerEnd = stdout.indexOf(0x0a, offset);
+      const size = parseInt(stdout.toString('utf-8', offset, headerEnd), 10);
+      offset = headerEnd + 1;
+      if (size < 0) {
+        warnings.push(`${entry.path}: unreadable, skipped`);
+        continue;
+      }
+      const content = stdout.subarray(offset, offset + size);
+      offset += size;
+      // Même heuristique que grep : un octet NUL signale un fichier binaire
+      if (content.subarray(0, 8000).includes(0))
+        continue;
+
+      const lines = content.toString('utf-8').split('\n');
+      const spans = findMatchesInContent(lines, regExp, !!options.multiline, outputMode === 'filesWithMatches');
+      if (spans.length === 0)
+        continue;
+
+      matchingFiles++;
+      totalMatches += spans.length;
+      if (outputMode !== 'content') {
+        if (matchingFiles <= maxResults) {
+          files.push(outputMode === 'count' ? { file: entry.path, matchCount: spans.length } : { file: entry.path });
         }
+        continue;
+      }
+
+      // Limite globale : seules les maxResults premières correspondances sont conservées
+      const kept = spans.slice(0, Math.max(0, maxResults - (totalMatches - spans.length)));
+      if (kept.length === 0)
+        continue;
+      const contextRange = (from: number, to: number) => {
+        const context: SearchContextLine[] = [];
+        for (let l = Math.max(1, from); l <= Math.min(to, lines.length); l++) {
+          context.push({ line: l, text: lines[l - 1] });
+        }
+        return context;
+      };
+      files.push({
+        file: entry.path,
+        matchCount: spans.length,
+        hits: kept.map(span => ({
+          ...span,
+          text: lines.slice(span.line - 1, span.endLine).join('\n'),
+          before: contextRange(span.line - contextLines, span.line - 1),
+          after: contextRange(span.endLine + 1, span.endLine + contextLines)
+        }))
+      });
+    }
+  }
+
+  return {
+    files,
+    totalMatches: outputMode === 'filesWithMatches' ? undefined : totalMatches,
+    omitted: Math.max(0, (outputMode === 'content' ? totalMatches : matchingFiles) - maxResults),
+    warnings
+  };
+}
+
+// Nombre total de lignes et d'octets d'un fichier (une dernière ligne sans \n compte pour une ligne),
+// et son hash calculé dans la même commande si withHash est vrai
+async function getFileCounts(
+  filePath: string,
+  withHash: boolean = false
+): Promise<{ totalLines: number; totalBytes: number; hash?: string }> {
+  const wslPath = toWslPath(filePath);
+  const result = await execWslScript(
+    'wc -l -c < "$1" && tail -c 1 -- "$1" | wc -l' + (withHash ? ' && sha256sum < "$1"' : ''),
+    [wslPath]
+  );
+  const [newlines, totalBytes, endsWithNewline, hash] = result.trim().split(/\s+/);
+  const totalLines = parseInt(newlines, 10) + (parseInt(totalBytes, 10) > 0 && parseInt(endsWithNewline, 10) === 0 ? 1 : 0);
+  return { totalLines, totalBytes: parseInt(totalBytes, 10), ...(withHash ? { hash } : {}) };
+}
+
+// Exécuter une commande de lecture puis hacher le fichier dans la même commande :
+// les 64 caractères du hash et un saut de ligne terminent la sortie
+async function readWithHash(wslPath: string, argv: string[]): Promise<{ content: Buffer; hash: string }> {
+  const { stdout } = await execWslCommandRaw(
+    ['sh', '-c', 'f=$1; shift; "$@" && sha256sum < "$f" | cut -c1-64', 'sh', wslPath, ...argv]
+  );
+  return { content: stdout.subarray(0, -65), hash: stdout.toString('utf-8', stdout.length - 65, stdout.length - 1) };
+}
+
+const STABLE_READ_ATTEMPTS = 3;
+
+/**
+ * Lecture partielle dont le contenu, les totaux et le hash décrivent le même état du fichier :
+ * le hash est calculé avec les totaux, puis par la commande qui lit le contenu (readWithHash) ;
+ * la lecture est refaite si le fichier a changé entre les deux.
+ */
+async function readStableRange<T extends { hash: string }>(
+  filePath: string,
+  read: (counts: { totalLines: number; totalBytes: number }) => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const { hash, ...counts } = await getFileCounts(filePath, true);
+    const result = await read(counts);
+    if (result.hash === hash)
+      return result;
+    if (attempt === STABLE_READ_ATTEMPTS) {
+      throw new Error(`${filePath} kept changing while being read`);
+    }
+  }
+}
+
+function countLines(content: Buffer): number {
+  if (content.length === 0)
+    return 0;
+  let count = 0;
+  for (let i = content.indexOf(0x0a); i !== -1; i = content.indexOf(0x0a, i + 1)) {
+    count++;
+  }
+  return content[content.length - 1] === 0x0a ? count : count + 1;
+}
+
+// Lire une plage de lignes (startLine/endLine, head, tail) ou d'octets (offset/length) d'un fichier
+async function readFileRange(filePath: string, range: FileRange): Promise<FileRangeResult> {
+  return readStableRange(filePath, counts => readFileRangeOnce(toWslPath(filePath), range, counts));
+}
+
+async function readFileRangeOnce(
+  wslPath: string,
+  range: FileRange,
+  { totalLines, totalBytes }: { totalLines: number; totalBytes: number }
+): Promise<FileRangeResult> {
+  if (range.offset !== undefined || range.length !== undefined) {
+    const offset = range.offset ?? 0;
+    if (offset > 0 && offset >= totalBytes) {
+      throw new Error(`File has only ${totalBytes.toLocaleString()} bytes. Offset ${offset} is out of range.`);
+    }
+    const { content, hash } = await readWithHash(wslPath, range.length !== undefined
+      ? readBytesArgv(wslPath, offset, range.length)
+      : ['tail', '-c', `+${offset + 1}`, '--', wslPath]);
+    return { content, totalLines, totalBytes, startByte: offset, endByte: offset + content.length, hash };
+  }
+
+  let argv: string[];
+  let firstLine: number;
+  if (range.head !== undefined) {
+    argv = ['head', '-n', String(range.head), '--', wslPath];
+    firstLine = 1;
+  } else if (range.tail !== undefined) {
+    argv = ['tail', '-n', String(range.tail), '--', wslPath];
+    firstLine = Math.max(1, totalLines - range.tail + 1);
+  } else {
+    const startLine = range.startLine ?? 1;
+    if (startLine > totalLines && totalLines > 0) {
+      throw new Error(`File has only ${totalLines.toLocaleString()} lines. Line ${startLine} does not exist.`);
+    }
+    // sed s'arrête dès la dernière ligne demandée au lieu de lire tout le fichier
+    argv = range.endLine !== undefined
+      ? ['sed', '-n', '-e', `${startLine},${range.endLine}p`, '-e', `${range.endLine}q`, '--', wslPath]
+      : ['sed', '-n', `${startLine},$p`, '--', wslPath];
+    firstLine = startLine;
+  }
+
+  const { content, hash } = await readWithHash(wslPath, argv);
+  return {
+    content,
+    totalLines,
+    totalBytes,
+    firstLine,
+    lastLine: firstLine + Math.max(0, countLines(content) - 1),
+    hash
+  };
+}
+
+// Préfixer chaque ligne par son numéro (format proche de cat -n)
+function addLineNumbers(text: string, firstLine: number): string {
+  const endsWithNewline = text.endsWith('\n');
+  const lines = (endsWithNewline ? text.slice(0, -1) : text).split('\n');
+  const numbered = lines.map((line, i) => `${String(firstLine + i).padStart(6)}\t${line}`).join('\n');
+  return endsWithNewline ? numbered + '\n' : numbered;
+}
+
+// Commande lisant `length` octets à partir de la position `start` (0-based)
+function readBytesArgv(wslPath: string, start: number, length: number): string[] {
+  return ['sh', '-c', 'tail -c "+$2" -- "$1" | head -c "$3"', 'sh', wslPath, String(start + 1), String(length)];
+}
+
+/**
+ * Calcule la fin (exclusive) des parties demandées (1-based).
+ * Chaque frontière est indépendante des autres : juste après le dernier saut de ligne
+ * des MAX_BACKTRACK octets précédant `index * partSize`, sinon au début du caractère UTF-8
+ * le plus proche. Une partie ne coupe donc jamais un caractère multi-octets.
+ */
+async function computePartBoundaries(
+  wslPath: string,
+  totalBytes: number,
+  partSize: number,
+  indices: number[]
+): Promise<{ offset: number; lineAligned: boolean }[]> {
+  const positions = indices.map(index => index * partSize);
+  const inner = positions.filter(pos => pos > 0 && pos < totalBytes);
+  // Fenêtre : MAX_BACKTRACK octets avant la position, plus l'octet à la position elle-même
+  const windowSize = MAX_BACKTRACK + 1;
+  let windows = Buffer.alloc(0);
+  if (inner.length > 0) {
+    const script = 'f=$1; n=$2; shift 2; for pos do tail -c "+$pos" -- "$f" | head -c "$n"; done';
+    const starts = inner.map(pos => String(pos - MAX_BACKTRACK + 1));
+    ({ stdout: windows } = await execWslCommandRaw(['sh', '-c', script, 'sh', wslPath, String(windowSize), ...starts]));
+  }
+
+  return positions.map(pos => {
+    if (pos <= 0)
+      return { offset: 0, lineAligned: true };
+    if (pos >= totalBytes)
+      return { offset: totalBytes, lineAligned: true };
+
+    const windowIndex = inner.indexOf(pos);
+    const window = windows.subarray(windowIndex * windowSize, (windowIndex + 1) * windowSize);
+    const lastNewline = window.subarray(0, MAX_BACKTRACK).lastIndexOf(0x0a);
+    if (lastNewline !== -1) {
+      return { offset: pos - MAX_BACKTRACK + lastNewline + 1, lineAligned: true };
+    }
+    // Pas de saut de ligne : reculer tant que l'octet est une continuation UTF-8 (10xxxxxx)
+    let offset = pos;
+    while (offset > pos - 3 && (window[MAX_BACKTRACK + offset - pos] & 0xc0) === 0x80) {
+      offset--;
+    }
+    return { offset, lineAligned: false };
+  });
+}
+
+async function readFileByParts(filePath: string, partNumber: number, partSize: number = DEFAULT_PART_SIZE): Promise<FilePart> {
+  const wslPath = toWslPath(filePath);
+  
+  try {
+    return await readStableRange(filePath, async ({ totalLines, totalBytes }) => {
+      const totalParts = Math.ceil(totalBytes / partSize);
+      
+      // Vérifier si la partie demandée existe
+      if (partNumber > totalParts) {
+        throw new Error(`File has only ${totalBytes.toLocaleString()} bytes (${totalParts} parts of ${partSize.toLocaleString()} bytes). Part ${partNumber} does not exist.`);
       }
+      
+      const [start, end] = await computePartBoundaries(wslPath, totalBytes, partSize, [partNumber - 1, partNumber]);
+      
+      // Numéro de la première ligne : nombre de sauts de ligne avant le début de la partie
+      const newlinesBefore = start.offset > 0
+        ? parseInt(await execWslScript('head -c "$2" -- "$1" | wc -l', [wslPath, String(start.offset)]), 10)
+        : 0;
+      const firstLine = newlinesBefore + 1;
+      
+      // Dernière commande : le hash est calculé par celle qui lit la partie
+      const { content, hash } = await readWithHash(wslPath, readBytesArgv(wslPath, start.offset, end.offset - start.offset));
+      return {
+        partNumber,
+        totalParts,
+        content: content.toString('utf-8'),
+        startByte: start.offset,
+        endByte: end.offset,
+        firstLine,
+        lastLine: firstLine + Math.max(0, countLines(content) - 1),
+        totalBytes,
+        totalLines,
+        hash
+      };
+    });
+  } catch (error: any) {
+    if (error.message.includes('File has only')) {
+      throw error;
     }
+    throw new Error(`Failed to read file part ${partNumber} of ${filePath}: ${error.message}`);
+  }
+}
+
+async function getFilePartsInfo(filePath: string, partSize: number = DEFAULT_PART_SIZE): Promise<FilePartsInfo> {
+  const wslPath = toWslPath(filePath);
+  
+  try {
+    const { totalLines, totalBytes } = await getFileCounts(filePath);
+    const totalParts = Math.ceil(totalBytes / partSize);
+    const indices = Array.from({ length: totalParts + 1 }, (_, i) => i);
+    const boundaries = await computePartBoundaries(wslPath, totalBytes, partSize, indices);
     
-    // Lire le contenu depuis actualStart
-    let content = await execWslCommand(
-      `bash -c "tail -c +${actualStart + 1} '${wslPath}' | head -c ${PART_SIZE}"`
+    // Nombre de sauts de ligne de chaque partie, en une seule commande
+    const ranges = boundaries.slice(0, -1).flatMap((start, i) =>
+      [String(start.offset + 1), String(boundaries[i + 1].offset - start.offset)]
     );
+    const script = 'f=$1; shift; while [ "$#" -ge 2 ]; do tail -c "+$1" -- "$f" | head -c "$2" | wc -l; shift 2; done';
+    const newlineCounts = totalParts > 0
+      ? (await execWslScript(script, [wslPath, ...ranges])).trim().split(/\s+/).map(value => parseInt(value, 10))
+      : [];
     
-    // Pour les parties autres que la première, essayer de finir sur une ligne complète
-    if (partNumber > 1 && content.length === PART_SIZE) {
-      const endSearchStart = actualStart + PART_SIZE;
-      
-      if (endSearchStart < fileSize) {
-        const remainingChars = Math.min(MAX_BACKTRACK, fileSize - endSearchStart);
-        
-        if (remainingChars > 0) {
-          const endSearchContent = await execWslCommand(
-            `bash -c "tail -c +${endSearchStart + 1} '${wslPath}' | head -c ${remainingChars}"`
-          );
-          
-          const firstNewlineIndex = endSearchContent.indexOf('\n');
-          
-          if (firstNewlineIndex !== -1) {
-            content += endSearchContent.substring(0, firstNewlineIndex + 1);
-          }
-        }
-      }
+    const parts: FilePartsInfo['parts'] = [];
+    let firstLine = 1;
+    for (let i = 0; i < totalParts; i++) {
+      // Une partie coupée au milieu d'une ligne (ligne très longue) partage sa dernière ligne avec la suivante
+      const nextFirstLine = firstLine + newlineCounts[i];
+      const isLast = i === totalParts - 1;
+      parts.push({
+        partNumber: i + 1,
+        startByte: boundaries[i].offset,
+        endByte: boundaries[i + 1].offset,
+        firstLine,
+        lastLine: isLast ? totalLines : (boundaries[i + 1].lineAligned ? nextFirstLine - 1 : nextFirstLine)
+      });
+      firstLine = nextFirstLine;
     }
     
-    return content;
+    return { totalBytes, totalLines, partSize, parts };
   } catch (error: any) {
-    if (error.message.includes('File has only')) {
-      throw error;
+    throw new Error(`Failed to get parts info for ${filePath}: ${error.message}`);
+  }
+}
+
+function formatPartRange(part: { startByte: number; endByte: number; firstLine: number; lastLine: number }): string {
+  return `bytes ${part.startByte}-${part.endByte - 1}, lines ${part.firstLine}-${part.lastLine}`;
+}
+
+// file editing and diffing utilities
+function normalizeLineEndings(text: string): string {
+  return text.replace(/\r\n/g, '\n');
+}
+
+const UTF8_BOM = '\uFEFF';
+
+function stripBom(text: string): string {
+  return text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+}
+
+// Fin de ligne dominante d'un texte (LF en cas d'égalité)
+function detectLineEnding(text: string): LineEnding {
+  const crlf = text.match(/\r\n/g)?.length ?? 0;
+  const lf = (text.match(/\n/g)?.length ?? 0) - crlf;
+  return crlf > lf ? 'crlf' : 'lf';
+}
+
+function convertLineEndings(text: string, lineEnding: LineEnding): string {
+  const normalized = normalizeLineEndings(text);
+  return lineEnding === 'crlf' ? normalized.replace(/\n/g, '\r\n') : normalized;
+}
+
+/**
+ * Reporter les fins de ligne de original sur modified (normalisé en LF).
+ * Les lignes inchangées gardent leur fin de ligne d'origine, les nouvelles lignes prennent la fin
+ * de ligne dominante : un fichier CRLF ou mixte n'est pas réécrit en entier.
+ */
+function restoreLineEndings(original: string, modified: string): string {
+  if (!original.includes('\r\n'))
+    return modified;
+  const originalLines = original.split('\n');
+  // Fichier entièrement en CRLF : pas besoin d'aligner les lignes
+  if (originalLines.slice(0, -1).every(line => line.endsWith('\r'))) {
+    return convertLineEndings(modified, 'crlf');
+  }
+
+  const lastIndex = originalLines.length - 1;
+  const endings = originalLines.map((line, i) => i === lastIndex ? '' : line.endsWith('\r') ? '\r\n' : '\n');
+  const plainLines = originalLines.map((line, i) => i < lastIndex && line.endsWith('\r') ? line.slice(0, -1) : line);
+  const dominant = detectLineEnding(original) === 'crlf' ? '\r\n' : '\n';
+  const modifiedLines = modified.split('\n');
+
+  let result = '';
+  let originalIndex = 0;
+  let modifiedIndex = 0;
+  for (const change of diffArrays(plainLines, modifiedLines)) {
+    if (change.removed) {
+      originalIndex += change.value.length;
+      continue;
     }
-    throw new Error(`Failed to read file part ${partNumber} of ${filePath}: ${error.message}`);
+    for (const line of change.value) {
+      const isLast = modifiedIndex === modifiedLines.length - 1;
+      const ending = isLast ? '' : (!change.added && endings[originalIndex]) || dominant;
+      result += line + ending;
+      modifiedIndex++;
+      if (!change.added)
+        originalIndex++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Mettre en forme le texte modifié d'un fichier avant de l'écrire à la place de existing.
+ * En mode preserve, les fins de ligne (ligne par ligne) et le BOM UTF-8 du fichier existant
+ * sont conservés ; un nouveau fichier est écrit tel quel. lf et crlf convertissent toutes les lignes.
+ */
+function formatTextForWrite(content: string, existing: string | null, lineEnding: LineEndingOption = 'preserve'): string {
+  if (existing === null) {
+    return lineEnding === 'preserve' ? content : convertLineEndings(content, lineEnding);
+  }
+  const bom = content.startsWith(UTF8_BOM) || existing.startsWith(UTF8_BOM);
+  const text = normalizeLineEndings(stripBom(content));
+  const body = lineEnding === 'preserve'
+    ? restoreLineEndings(stripBom(existing), text)
+    : convertLineEndings(text, lineEnding);
+  return (bom ? UTF8_BOM : '') + body;
+}
+
+// Taille du début de fichier lu pour en déduire le BOM et les fins de ligne avant une écriture complète
+const TEXT_FORMAT_SAMPLE_BYTES = 64 * 1024;
+
+// BOM UTF-8 et fin de ligne dominante d'un fichier, null si aucune fin de ligne n'apparaît dans son début
+interface TextFormat {
+  bom: boolean;
+  lineEnding: LineEnding | null;
+}
+
+// Forme d'un fichier existant, déduite de son début (ou de sa première fin de ligne) ; null s'il n'existe pas
+async function wslSampleTextFormat(filePath: string): Promise<TextFormat | null> {
+  let sample: Buffer;
+  try {
+    ({ stdout: sample } = await execWslCommandRaw(['head', '-c', String(TEXT_FORMAT_SAMPLE_BYTES), '--', toWslPath(filePath)]));
+  } catch {
+    return null;
+  }
+  const text = sample.toString('utf-8');
+  let lineEnding = text.includes('\n') ? detectLineEnding(text) : null;
+  // Première ligne plus longue que l'échantillon : seuls ses deux derniers octets sont transférés
+  if (lineEnding === null && sample.length === TEXT_FORMAT_SAMPLE_BYTES) {
+    const { stdout: end } = await execWslCommandRaw(['sh', '-c', 'head -n 1 -- "$1" | tail -c 2', 'sh', toWslPath(filePath)]);
+    lineEnding = end.toString('latin1') === '\r\n' ? 'crlf' : end.toString('latin1').endsWith('\n') ? 'lf' : null;
+  }
+  return { bom: text.startsWith(UTF8_BOM), lineEnding };
+}
+
+/**
+ * Mettre en forme un contenu donné en entier, écrit à la place de (ou à la suite d')un fichier
+ * de forme format. En mode preserve, il prend la fin de ligne dominante et le BOM du fichier ;
+ * un nouveau fichier, ou un fichier sans fin de ligne, reçoit le contenu tel quel.
+ */
+function formatContentForFile(
+  content: string,
+  format: TextFormat | null,
+  lineEnding: LineEndingOption = 'preserve',
+  append: boolean = false
+): string {
+  if (format === null) {
+    return lineEnding === 'preserve' ? content : convertLineEndings(content, lineEnding);
+  }
+  // Un BOM n'a de sens qu'en début de fichier
+  const bom = !append && (content.startsWith(UTF8_BOM) || format.bom);
+  const text = stripBom(content);
+  const target = lineEnding === 'preserve' ? format.lineEnding : lineEnding;
+  return (bom ? UTF8_BOM : '') + (target === null ? text : convertLineEndings(text, target));
+}
+
+function createUnifiedDiff(
+  originalContent: string,
+  newContent: string,
+  filepath: string = 'file',
+  newLabel: string = 'modified'
+): string {
+  // Ensure consistent line endings for diff
+  const normalizedOriginal = normalizeLineEndings(originalContent);
+  const normalizedNew = normalizeLineEndings(newContent);
+
+  return createTwoFilesPatch(filepath, filepath, normalizedOriginal, normalizedNew, 'original', newLabel);
+}
+
+// Lire un fichier et calculer le résultat de ses modifications, sans rien écrire
+async function computeFileEdits(
+  filePath: string,
+  edits: EditOperationType[],
+  expectedHash?: string,
+  lineEnding: LineEndingOption = 'preserve'
+): Promise<ComputedFileEdits> {
+  // Read file content and normalize line endings
+  const buffer = await wslReadFileBuffer(filePath);
+  const originalHash = rememberContent(buffer);
+  if (expectedHash && expectedHash !== originalHash) {
+    throw await createConflictError(filePath, expectedHash);
+  }
+  // Réécrire un fichier d'un autre jeu de caractères en UTF-8 remplacerait ses caractères non ASCII
+  if (decodeTextFile(buffer) === null) {
+    const charset = detectLegacyCharset(buffer);
+    throw new Error(
+      `${filePath} is not UTF-8 text${charset ? ` (decoded from ${charset} when read)` : ''}; ` +
+      `edit_file only edits UTF-8 files`
+    );
+  }
+  // Les fins de ligne et le BOM d'origine sont restaurés à l'écriture
+  const original = buffer.toString('utf-8');
+  const content = normalizeLineEndings(stripBom(original));
+
+  // Apply edits sequentially
+  let modifiedContent = content;
+  // Modifications appliquées à une correspondance trouvée en ignorant les espaces
+  const fuzzyEdits: FuzzyEdit[] = [];
+  edits.forEach((edit, i) => {
+    const label = edits.length > 1 ? `Edit ${i + 1}` : 'Edit';
+    const normalizedOld = normalizeLineEndings(edit.oldText);
+    const normalizedNew = normalizeLineEndings(edit.newText);
+    if (normalizedOld === '') {
+      throw new Error(`${label}: oldText must not be empty`);
+    }
+
+    const matches = findEditMatches(modifiedContent, normalizedOld, normalizedNew);
+    if (matches.length === 0) {
+      throw new Error(`Could not find exact match for ${label.toLowerCase()}:\n${edit.oldText}`);
+    }
+
+    // Remplacer en partant de la fin pour ne pas décaler les positions restantes
+    const selected = selectEditMatches(matches, edit, label).sort((a, b) => b.start - a.start);
+    if (selected[0].fuzzy) {
+      fuzzyEdits.push({ edit: i + 1, lines: selected.map(match => match.line).reverse() });
+    }
+    for (const match of selected) {
+      modifiedContent = modifiedContent.slice(0, match.start) + match.replacement + modifiedContent.slice(match.end);
+    }
+  });
+
+  const output = formatTextForWrite(modifiedContent, original, lineEnding);
+
+  // Create unified diff, without line-ending noise; a conversion is only mentioned in the header
+  const details: string[] = [];
+  if (fuzzyEdits.length > 0) {
+    details.push('whitespace-insensitive match');
+  }
+  if (lineEnding !== 'preserve' && convertLineEndings(original, lineEnding) !== original) {
+    details.push(`line endings converted to ${lineEnding.toUpperCase()}`);
+  }
+  const diff = createUnifiedDiff(
+    content,
+    modifiedContent,
+    filePath,
+    details.length > 0 ? `modified (${details.join(', ')})` : 'modified'
+  );
+
+  return {
+    buffer,
+    originalHash,
+    output,
+    diff,
+    fuzzyEdits,
+    lineEnding: detectLineEnding(output),
+    bom: output.startsWith(UTF8_BOM)
+  };
+}
+
+async function applyFileEdits(
+  filePath: string,
+  edits: EditOperationType[],
+  dryRun: boolean = false,
+  expectedHash?: string,
+  lineEnding: LineEndingOption = 'preserve'
+): Promise<{ diff: string; hash: string; fuzzyEdits: FuzzyEdit[]; lineEnding: LineEnding; bom: boolean }> {
+  const result = await computeFileEdits(filePath, edits, expectedHash, lineEnding);
+  const { diff, fuzzyEdits, bom } = result;
+  if (dryRun) {
+    return { diff, hash: result.originalHash, fuzzyEdits, lineEnding: result.lineEnding, bom };
+  }
+
+  // Le fichier ne doit pas avoir changé depuis sa lecture
+  await wslWriteFile(filePath, result.output, { expectedHash: result.originalHash });
+  return { diff, hash: rememberContent(result.output), fuzzyEdits, lineEnding: result.lineEnding, bom };
+}
+
+/**
+ * Appliquer des modifications à plusieurs fichiers en une transaction : toutes sont d'abord calculées
+ * en mémoire (les erreurs de tous les fichiers sont rapportées ensemble), puis les fichiers sont écrits
+ * tous ensemble ou pas du tout, en échouant sur un conflit si l'un d'eux a changé depuis sa lecture.
+ */
+async function editFiles(
+  entries: { path: string; edits: EditOperationType[]; expectedHash?: string }[],
+  dryRun: boolean = false,
+  lineEnding: LineEndingOption = 'preserve'
+): Promise<{ files: { path: string; hash: string; fuzzyEdits: FuzzyEdit[]; lineEnding: LineEnding; bom: boolean }[]; diff: string }> {
+  const computed: { path: string; result: ComputedFileEdits }[] = [];
+  const errors: string[] = [];
+  for (const entry of entries) {
+    try {
+      computed.push({ path: entry.path, result: await computeFileEdits(entry.path, entry.edits, entry.expectedHash, lineEnding) });
+    } catch (error: any) {
+      errors.push(`${entry.path}: ${error.message}`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Edits not applied, no file was written:\n${errors.join('\n')}`);
+  }
+
+  if (!dryRun) {
+    await writeFilesAtomically(computed.map(({ path, result }) => ({
+      path,
+      content: result.output,
+      original: result.buffer,
+      expectedHash: result.originalHash
+    })));
+  }
+  return {
+    files: computed.map(({ path, result }) => ({
+      path,
+      hash: dryRun ? result.originalHash : rememberContent(result.output),
+      fuzzyEdits: result.fuzzyEdits,
+      lineEnding: result.lineEnding,
+      bom: result.bom
+    })),
+    diff: computed.map(({ result }) => result.diff).join('')
+  };
+}
+
+// Toutes les correspondances (sans chevauchement) de oldText : exactes, sinon en ignorant l'indentation
+function findEditMatches(content: string, oldText: string, newText: string): EditMatch[] {
+  const contentLines = content.split('\n');
+  const lineStarts = [0];
+  for (const line of contentLines.slice(0, -1)) {
+    lineStarts.push(lineStarts[lineStarts.length - 1] + line.length + 1);
+  }
+  const lineAt = (index: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= index)
+      line++;
+    return line + 1;
+  };
+
+  const matches: EditMatch[] = [];
+  for (let index = content.indexOf(oldText); index !== -1; index = content.indexOf(oldText, index + oldText.length)) {
+    matches.push({ start: index, end: index + oldText.length, line: lineAt(index), replacement: newText, fuzzy: false });
+  }
+  if (matches.length > 0) {
+    return matches;
+  }
+
+  // Otherwise, try line-by-line matching with flexibility for whitespace
+  const oldLines = oldText.split('\n');
+  const fileStyle = detectIndentStyle(contentLines);
+  // Largeur des indentations en espaces d'un fichier indenté majoritairement par tabulations
+  const spaceStyle = fileStyle.useTabs
+    ? detectIndentStyle(contentLines.filter(line => line.startsWith(' ')), { useTabs: false, size: fileStyle.size })
+    : fileStyle;
+  for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
+    const potentialMatch = contentLines.slice(i, i + oldLines.length);
+
+    // Compare lines with normalized whitespace
+    const isMatch = oldLines.every((oldLine: string, j: number) => {
+      const contentLine = potentialMatch[j];
+      return oldLine.trim() === contentLine.trim();
+    });
+    if (!isMatch)
+      continue;
+
+    const newLines = reindentReplacement(potentialMatch, oldLines, newText.split('\n'), fileStyle, spaceStyle);
+
+    const lastLine = i + oldLines.length - 1;
+    matches.push({
+      start: lineStarts[i],
+      end: lineStarts[lastLine] + contentLines[lastLine].length,
+      line: i + 1,
+      replacement: newLines.join('\n'),
+      fuzzy: true
+    });
+    i = lastLine;
+  }
+  return matches;
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^[ \t]*/)![0];
+}
+
+// Largeur en colonnes d'une indentation, une tabulation valant un niveau
+function indentColumns(indent: string, style: IndentStyle): number {
+  let columns = 0;
+  for (const char of indent) {
+    columns += char === '\t' ? style.size : 1;
+  }
+  return columns;
+}
+
+/**
+ * Style d'indentation majoritaire de lignes : tabulations si elles dominent,
+ * sinon la plus grande largeur (8, 4, 3 ou 2) divisant au moins 90 % des indentations en espaces.
+ */
+function detectIndentStyle(lines: string[], fallback: IndentStyle = { useTabs: false, size: 4 }): IndentStyle {
+  let tabLines = 0;
+  const spaceWidths: number[] = [];
+  for (const line of lines) {
+    if (line.trim() === '')
+      continue;
+    const indent = leadingWhitespace(line);
+    if (indent.startsWith('\t')) {
+      tabLines++;
+    } else if (indent.length > 0 && !line.trimStart().startsWith('*')) {
+      // Les lignes " * " des commentaires de bloc sont décalées d'un espace : ignorées
+      spaceWidths.push(indent.length);
+    }
+  }
+  if (tabLines > 0 && tabLines >= spaceWidths.length) {
+    return { useTabs: true, size: fallback.useTabs ? fallback.size : 4 };
+  }
+  if (spaceWidths.length === 0) {
+    return fallback;
+  }
+  const size = [8, 4, 3, 2].find(candidate =>
+    spaceWidths.filter(width => width % candidate === 0).length >= spaceWidths.length * 0.9
+  );
+  return { useTabs: false, size: size ?? fallback.size };
+}
+
+/**
+ * Indentation de référence d'un texte : celle de sa première ligne non vide, ou null si cette ligne
+ * a perdu son indentation au copier-coller (première ligne sans indentation, toutes les suivantes indentées).
+ */
+function textIndentBase(lines: string[]): string | null {
+  const first = lines.findIndex(line => line.trim() !== '');
+  if (first === -1)
+    return '';
+  const base = leadingWhitespace(lines[first]);
+  const following = lines.slice(first + 1).filter(line => line.trim() !== '');
+  if (first === 0 && base === '' && following.length > 0 && following.every(line => leadingWhitespace(line) !== '')) {
+    return null;
+  }
+  return base;
+}
+
+/**
+ * Ré-indenter newText pour une correspondance trouvée en ignorant les espaces.
+ * Une ligne indentée comme une ligne de oldText reprend l'indentation réelle de cette ligne (alignements compris) ;
+ * pour les autres, l'écart par rapport à la référence de newText est converti en niveaux, puis reporté
+ * dans le style du bloc (tabulations ou espaces, celui du fichier s'il n'est pas indenté).
+ * Les lignes reprises telles quelles de oldText gardent leur indentation d'origine.
+ */
+function reindentReplacement(
+  matchedLines: string[],
+  oldLines: string[],
+  newLines: string[],
+  fileStyle: IndentStyle,
+  spaceStyle: IndentStyle = fileStyle
+): string[] {
+  const modelStyle = detectIndentStyle([...oldLines, ...newLines], fileStyle);
+  const oldAnchor = Math.max(0, oldLines.findIndex(line => line.trim() !== ''));
+  const oldBase = textIndentBase(oldLines);
+  const newBase = textIndentBase(newLines);
+
+  // Correspondance entre une indentation du modèle et une indentation réelle du fichier
+  let modelReference: string;
+  let fileReference: string;
+  if (newBase !== null) {
+    modelReference = newBase;
+    fileReference = leadingWhitespace(matchedLines[oldAnchor]);
+  } else if (oldBase !== null) {
+    modelReference = oldBase;
+    fileReference = leadingWhitespace(matchedLines[oldAnchor]);
+  } else {
+    // Première ligne tronquée des deux côtés : les lignes suivantes de oldText servent de référence
+    const second = oldLines.findIndex((line, j) => j > 0 && line.trim() !== '');
+    modelReference = second === -1 ? '' : leadingWhitespace(oldLines[second]);
+    fileReference = second === -1 ? '' : leadingWhitespace(matchedLines[second]);
+  }
+
+  // Dans un fichier qui mélange tabulations et espaces, le bloc garde le style de sa propre indentation
+  const style = fileReference.startsWith(' ')
+    ? spaceStyle
+    : fileReference.startsWith('\t') ? { useTabs: true, size: fileStyle.size } : fileStyle;
+  const renderIndent = (columns: number) => style.useTabs
+    ? '\t'.repeat(Math.floor(columns / style.size)) + ' '.repeat(columns % style.size)
+    : ' '.repeat(columns);
+
+  // Indentations de oldText et indentations réelles correspondantes (sauf une première ligne tronquée)
+  const knownIndents = new Map<string, string>();
+  oldLines.forEach((line, j) => {
+    if (line.trim() !== '' && !(j === 0 && oldBase === null) && !knownIndents.has(leadingWhitespace(line))) {
+      knownIndents.set(leadingWhitespace(line), leadingWhitespace(matchedLines[j]));
+    }
+  });
+
+  return newLines.map((line, j) => {
+    if (line.trim() === '')
+      return '';
+    // Ligne reprise telle quelle de oldText : indentation réelle du fichier
+    if (j < oldLines.length && line === oldLines[j]) {
+      return matchedLines[j];
+    }
+    // Première ligne tronquée : alignée sur le début du bloc remplacé
+    if (j === 0 && newBase === null) {
+      return leadingWhitespace(matchedLines[0]) + line;
+    }
+    const known = knownIndents.get(leadingWhitespace(line));
+    if (known !== undefined) {
+      return known + line.trimStart();
+    }
+    // Écart en niveaux du modèle, reporté en niveaux du fichier (le reste en espaces d'alignement)
+    const delta = indentColumns(leadingWhitespace(line), modelStyle) - indentColumns(modelReference, modelStyle);
+    const levels = Math.trunc(delta / modelStyle.size);
+    const remainder = delta - levels * modelStyle.size;
+    if (delta >= 0) {
+      const relative = style.useTabs ? '\t'.repeat(levels) : ' '.repeat(levels * style.size);
+      return fileReference + relative + ' '.repeat(remainder) + line.trimStart();
+    }
+    const columns = indentColumns(fileReference, style) + levels * style.size + remainder;
+    return renderIndent(Math.max(0, columns)) + line.trimStart();
+  });
+}
+
+// Choisir les correspondances à remplacer ; une correspondance ambiguë est une erreur
+function selectEditMatches(matches: EditMatch[], edit: EditOperationType, label: string): EditMatch[] {
+  const lines = matches.map(match => match.line);
+  const candidates = `line${lines.length > 1 ? 's' : ''} ${lines.join(', ')}${matches[0].fuzzy ? ' (ignoring whitespace)' : ''}`;
+
+  if (edit.replaceAll) {
+    return matches;
+  }
+  if (edit.occurrence !== undefined) {
+    if (edit.occurrence > matches.length) {
+      throw new Error(
+        `Could not find occurrence ${edit.occurrence} of exact match for ${label.toLowerCase()} ` +
+        `(only ${matches.length} found, at ${candidates}):\n${edit.oldText}`
+      );
+    }
+    return [matches[edit.occurrence - 1]];
+  }
+  if (edit.startLine !== undefined) {
+    const distances = matches.map(match => Math.abs(match.line - edit.startLine!));
+    const nearest = Math.min(...distances);
+    const closest = matches.filter((_, i) => distances[i] === nearest);
+    if (closest.length > 1) {
+      throw new Error(
+        `${label}: oldText matches at ${closest.map(match => match.line).join(' and ')}, equally close to startLine ${edit.startLine}. ` +
+        `Use occurrence to choose one.`
+      );
+    }
+    return closest;
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `${label}: oldText is ambiguous, it matches ${matches.length} locations at ${candidates}. ` +
+      `Add surrounding context to oldText, or set occurrence, startLine or replaceAll.`
+    );
+  }
+  return matches;
+}
+
+// Chemin d'une ligne ---/+++ ou d'un en-tête git, sans horodatage ni guillemets
+function parsePatchPath(raw: string): string {
+  const path = raw.split('\t')[0].trim();
+  if (path.startsWith('"') && path.endsWith('"')) {
+    try {
+      return JSON.parse(path);
+    } catch {
+      return path.slice(1, -1);
+    }
+  }
+  return path;
+}
+
+/**
+ * Découper un diff unifié (diff -u ou git diff) en modifications par fichier.
+ * Les lignes hors en-têtes et hunks (message de commit, "index ...") sont ignorées ;
+ * un en-tête "@@" sans numéros est accepté, le hunk s'arrête alors à la première ligne qui n'en fait pas partie.
+ */
+function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = normalizeLineEndings(patch).split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  const files: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  // Lignes ---/+++ déjà lues pour le fichier courant
+  let headerSeen = false;
+  const startFile = (oldPath = '', newPath = '', git = false): FilePatch => {
+    current = { oldPath, newPath, git, newFile: false, deletedFile: false, binary: false, hunks: [] };
+    headerSeen = false;
+    files.push(current);
+    return current;
+  };
+  const isFileHeader = (i: number) => lines[i]?.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith('diff --git ')) {
+      const paths = /^diff --git "?a\/(.*?)"? "?b\/(.*?)"?$/.exec(line);
+      startFile(paths?.[1] ?? '', paths?.[2] ?? '', true);
+      continue;
+    }
+    if (line.startsWith('Index: ')) {
+      const path = parsePatchPath(line.slice('Index: '.length));
+      startFile(path, path);
+      continue;
+    }
+    const file = current as FilePatch | null;
+    if (isFileHeader(i)) {
+      const header = file !== null && file.hunks.length === 0 && !headerSeen ? file : startFile();
+      header.oldPath = parsePatchPath(line.slice(4));
+      header.newPath = parsePatchPath(lines[i + 1].slice(4));
+      headerSeen = true;
+      i++;
+      continue;
+    }
+
+    if (file !== null && file.hunks.length === 0) {
+      if (line.startsWith('rename from ')) {
+        file.oldPath = parsePatchPath(line.slice('rename from '.length));
+      } else if (line.startsWith('rename to ')) {
+        file.newPath = parsePatchPath(line.slice('rename to '.length));
+      } else if (line.startsWith('new file mode')) {
+        file.newFile = true;
+      } else if (line.startsWith('deleted file mode')) {
+        file.deletedFile = true;
+      } else if (line.startsWith('GIT binary patch') || /^Binary files .* differ$/.test(line)) {
+        file.binary = true;
+      }
+    }
+    if (!line.startsWith('@@')) {
+      continue;
+    }
+    if (file === null) {
+      throw new Error(`Hunk without file header at line ${i + 1} of the patch`);
+    }
+
+    const numbers = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    let oldRemaining = numbers ? Number(numbers[2] ?? 1) : Infinity;
+    let newRemaining = numbers ? Number(numbers[4] ?? 1) : Infinity;
+    const hunk: PatchHunk = {
+      header: line,
+      oldStart: numbers ? Number(numbers[1]) : null,
+      lines: [],
+      oldNoNewline: false,
+      newNoNewline: false
+    };
+    while (i + 1 < lines.length) {
+      const next = lines[i + 1];
+      // "\ No newline at end of file" porte sur la ligne précédente
+      if (next.startsWith('\\')) {
+        const previous = hunk.lines[hunk.lines.length - 1];
+        hunk.oldNoNewline ||= previous !== undefined && previous[0] !== '+';
+        hunk.newNoNewline ||= previous !== undefined && previous[0] !== '-';
+        i++;
+        continue;
+      }
+      if ((oldRemaining <= 0 && newRemaining <= 0) || isFileHeader(i + 1)) {
+        break;
+      }
+      // Une ligne de contexte vide a pu perdre son espace initial
+      const kind = next === '' ? ' ' : next[0];
+      if (kind !== ' ' && kind !== '-' && kind !== '+') {
+        break;
+      }
+      hunk.lines.push(next === '' ? ' ' : next);
+      if (kind !== '+')
+        oldRemaining--;
+      if (kind !== '-')
+        newRemaining--;
+      i++;
+    }
+    file.hunks.push(hunk);
   }
+  return files;
+}
+
+/**
+ * Appliquer les hunks d'un fichier à ses lignes (sans fins de ligne).
+ * Chaque hunk est cherché à partir de la position annoncée par son en-tête (décalée comme les hunks
+ * précédents), en s'en éloignant progressivement, sans jamais revenir avant le hunk précédent.
+ * Avec fuzz, jusqu'à fuzz lignes de contexte en début et en fin de hunk peuvent être ignorées.
+ * Un hunk qui ne s'applique pas est signalé et les suivants sont tout de même essayés.
+ */
+function applyHunks(
+  lines: string[],
+  endsWithNewline: boolean,
+  hunks: PatchHunk[],
+  fuzz: number
+): { lines: string[]; endsWithNewline: boolean; results: HunkResult[] } {
+  const result = [...lines];
+  const results: HunkResult[] = [];
+  let minIndex = 0;
+  // Lignes ajoutées moins lignes retirées par les hunks appliqués, et décalage du dernier hunk trouvé
+  let sizeDelta = 0;
+  let offset = 0;
+
+  hunks.forEach((hunk, h) => {
+    const report = { hunk: h + 1, header: /^@@.*?@@/.exec(hunk.header)?.[0] ?? hunk.header };
+    const changed = hunk.lines.map(line => line[0] !== ' ');
+    const contextBefore = changed.includes(true) ? changed.indexOf(true) : hunk.lines.length;
+    const contextAfter = changed.includes(true) ? hunk.lines.length - 1 - changed.lastIndexOf(true) : hunk.lines.length;
+    const hasOldLines = hunk.lines.some(line => line[0] !== '+');
+    // Index attendu dans le fichier d'origine ; un hunk sans ligne d'origine s'insère après oldStart
+    const expectedIndex = hunk.oldStart === null ? null : hasOldLines ? hunk.oldStart - 1 : hunk.oldStart;
+
+    for (let level = 0; level <= fuzz; level++) {
+      const dropStart = Math.min(level, contextBefore);
+      const dropEnd = Math.min(level, contextAfter);
+      // Plus aucune ligne de contexte à ignorer
+      if (level > 0 && dropStart < level && dropEnd < level) {
+        break;
+      }
+      const body = hunk.lines.slice(dropStart, hunk.lines.length - dropEnd);
+      const oldSeq = body.filter(line => line[0] !== '+').map(line => line.slice(1));
+      const newSeq = body.filter(line => line[0] !== '-').map(line => line.slice(1));
+      // Ignorer tout le contexte reviendrait à insérer n'importe où
+      if (oldSeq.length === 0 && hasOldLines) {
+        break;
+      }
+
+      const start = expectedIndex === null ? minIndex : expectedIndex + dropStart + sizeDelta + offset;
+      const matchesAt = (index: number) => oldSeq.every((line, j) => result[index + j] === line);
+      const last = result.length - oldSeq.length;
+      let position = -1;
+      for (let distance = 0; position === -1; distance++) {
+        const after = start + distance;
+        const before = start - distance;
+        if (after > last && before < minIndex) {
+          break;
+        }
+        if (after >= minIndex && after <= last && matchesAt(after)) {
+          position = after;
+        } else if (distance > 0 && before >= minIndex && before <= last && matchesAt(before)) {
+          position = before;
+        }
+      }
+      if (position === -1) {
+        continue;
+      }
+
+      result.splice(position, oldSeq.length, ...newSeq);
+      const originalIndex = position - dropStart - sizeDelta;
+      if (expectedIndex !== null) {
+        offset = originalIndex - expectedIndex;
+      }
+      sizeDelta += newSeq.length - oldSeq.length;
+      minIndex = position + newSeq.length;
+      if (dropEnd === 0 && minIndex === result.length && (hunk.oldNoNewline || hunk.newNoNewline)) {
+        endsWithNewline = !hunk.newNoNewline;
+      }
+      results.push({
+        ...report,
+        applied: true,
+        line: originalIndex + 1,
+        ...(expectedIndex !== null ? { offset: originalIndex - expectedIndex } : {}),
+        fuzz: Math.max(dropStart, dropEnd)
+      });
+      return;
+    }
+    results.push({
+      ...report,
+      applied: false,
+      error: hunk.oldStart === null ? 'context not found' : `context not found near line ${hunk.oldStart}`
+    });
+  });
+  return { lines: result, endsWithNewline, results };
 }
 
-// file editing and diffing utilities
-function normalizeLineEndings(text: string): string {
-  return text.replace(/\r\n/g, '\n');
+// Rapport texte d'apply_patch : une ligne par fichier, puis une par hunk
+function formatPatchReport(files: PatchFileResult[]): string {
+  return files.map(file => {
+    const title = file.operation === 'rename' ? `${file.from} -> ${file.path} (rename)` : `${file.path} (${file.operation})`;
+    const lines = [title];
+    if (file.error) {
+      lines.push(`  error: ${file.error}`);
+    }
+    for (const hunk of file.hunks) {
+      if (!hunk.applied) {
+        lines.push(`  hunk ${hunk.hunk} ${hunk.header}: FAILED, ${hunk.error}`);
+        continue;
+      }
+      const details = [
+        hunk.offset ? `offset ${hunk.offset > 0 ? '+' : ''}${hunk.offset}` : '',
+        hunk.fuzz ? `fuzz ${hunk.fuzz}` : ''
+      ].filter(Boolean);
+      lines.push(`  hunk ${hunk.hunk} ${hunk.header}: applied at line ${hunk.line}${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+    }
+    return lines.join('\n');
+  }).join('\n');
 }
 
-function createUnifiedDiff(originalContent: string, newContent: string, filepath: string = 'file'): string {
-  // Ensure consistent line endings for diff
-  const normalizedOriginal = normalizeLineEndings(originalContent);
-  const normalizedNew = normalizeLineEndings(newContent);
+/**
+ * Appliquer un diff unifié multi-fichiers : modifications, créations (/dev/null côté original),
+ * suppressions (/dev/null côté nouveau) et renommages (en-têtes git "rename from/to").
+ * Tous les fichiers sont vérifiés et tous les hunks appliqués en mémoire avant la moindre écriture ;
+ * au moindre échec, rien n'est écrit et le résultat de chaque hunk est renvoyé avec applied à false.
+ * Les répertoires manquants des fichiers créés ou renommés sont créés avec eux.
+ */
+async function applyPatch(patch: string, options: ApplyPatchOptions = {}): Promise<{ applied: boolean; files: PatchFileResult[]; diff: string }> {
+  const filePatches = parseUnifiedDiff(patch);
+  if (filePatches.length === 0) {
+    throw new Error('No file changes found in the patch');
+  }
+  const fuzz = options.fuzz ?? 2;
 
-  return createTwoFilesPatch(filepath, filepath, normalizedOriginal, normalizedNew, 'original', 'modified');
-}
+  // Un fichier créé peut l'être dans des répertoires qui n'existent pas encore
+  const resolvePatchPath = async (path: string, allowMissingParents = false) => {
+    if (isAbsolute(expandHome(path))) {
+      return validatePath(path, { allowMissingParents });
+    }
+    if (!options.basePath) {
+      throw new Error(`Relative path ${path} in the patch: set path to the directory it is relative to`);
+    }
+    return validatePath(resolve(options.basePath, path), { allowMissingParents });
+  };
+  const exists = (path: string) => wslStat(path).then(() => true, () => false);
+  // Lignes d'un contenu texte, sans la dernière ligne vide due au saut de ligne final
+  const splitContent = (text: string) => {
+    const lines = text === '' ? [] : text.split('\n');
+    const endsWithNewline = text === '' || text.endsWith('\n');
+    if (lines.length > 0 && endsWithNewline) {
+      lines.pop();
+    }
+    return { lines, endsWithNewline };
+  };
 
-async function applyFileEdits(
-  filePath: string,
-  edits: EditOperationType[],
-  dryRun: boolean = false
-): Promise<string> {
-  // Read file content and normalize line endings
-  const content = normalizeLineEndings(await wslReadFile(filePath, 'utf-8'));
+  const results: PatchFileResult[] = [];
+  const writes: StagedWrite[] = [];
+  const touched = new Set<string>();
+  let diff = '';
+  for (const filePatch of filePatches) {
+    // Préfixes a/ et b/ des diffs git, aussi sans en-tête "diff --git" ("--- /dev/null" et "+++ b/x")
+    const prefixedSides = ([[filePatch.oldPath, 'a/'], [filePatch.newPath, 'b/']] as const)
+      .filter(([path]) => path !== '/dev/null');
+    const stripPrefix = filePatch.git ||
+      (prefixedSides.length > 0 && prefixedSides.every(([path, prefix]) => path.startsWith(prefix)));
+    const clean = (path: string, prefix: string) => stripPrefix && path.startsWith(prefix) ? path.slice(prefix.length) : path;
+    const oldPath = filePatch.newFile || filePatch.oldPath === '/dev/null' ? null : clean(filePatch.oldPath, 'a/');
+    const newPath = filePatch.deletedFile || filePatch.newPath === '/dev/null' ? null : clean(filePatch.newPath, 'b/');
+    if (oldPath === null && newPath === null) {
+      throw new Error('Patch entry without file name');
+    }
 
-  // Apply edits sequentially
-  let modifiedContent = content;
-  for (const edit of edits) {
-    const normalizedOld = normalizeLineEndings(edit.oldText);
-    const normalizedNew = normalizeLineEndings(edit.newText);
+    const source = oldPath === null ? null : await resolvePatchPath(oldPath);
+    const target = newPath === null ? null : await resolvePatchPath(newPath, true);
+    const operation = source === null ? 'create' : target === null ? 'delete' : source !== target ? 'rename' : 'modify';
+    const fileResult: PatchFileResult = {
+      path: (target ?? source)!,
+      ...(operation === 'rename' ? { from: source! } : {}),
+      operation,
+      hunks: []
+    };
+    results.push(fileResult);
 
-    // If exact match exists, use it
-    if (modifiedContent.includes(normalizedOld)) {
-      modifiedContent = modifiedContent.replace(normalizedOld, normalizedNew);
+    for (const path of [source, target]) {
+      if (path !== null && touched.has(path)) {
+        fileResult.error = 'file is changed more than once in the patch';
+      }
+    }
+    [source, target].forEach(path => path !== null && touched.add(path));
+    if (fileResult.error)
+      continue;
+    if (filePatch.binary) {
+      fileResult.error = 'binary patches are not supported';
       continue;
     }
 
-    // Otherwise, try line-by-line matching with flexibility for whitespace
-    const oldLines = normalizedOld.split('\n');
-    const contentLines = modifiedContent.split('\n');
-    let matchFound = false;
+    // Contenu d'origine (vide pour une création)
+    let buffer: Buffer | null = null;
+    let original = '';
+    if (source !== null) {
+      buffer = await wslReadFileBuffer(source).catch(() => null);
+      const text = buffer === null ? null : decodeTextFile(buffer);
+      if (text === null) {
+        fileResult.error = buffer === null ? 'file does not exist' : 'binary or not valid UTF-8';
+        continue;
+      }
+      original = text;
+    }
+    if (target !== null && target !== source && await exists(target)) {
+      fileResult.error = `${operation === 'rename' ? 'destination' : 'file'} already exists`;
+      continue;
+    }
 
-    for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
-      const potentialMatch = contentLines.slice(i, i + oldLines.length);
+    const content = normalizeLineEndings(stripBom(original));
+    const split = splitContent(content);
+    const applied = applyHunks(split.lines, split.endsWithNewline, filePatch.hunks, fuzz);
+    fileResult.hunks = applied.results;
+    if (applied.results.some(hunk => !hunk.applied))
+      continue;
+    const modified = applied.lines.join('\n') + (applied.lines.length > 0 && applied.endsWithNewline ? '\n' : '');
 
-      // Compare lines with normalized whitespace
-      const isMatch = oldLines.every((oldLine: string, j: number) => {
-        const contentLine = potentialMatch[j];
-        return oldLine.trim() === contentLine.trim();
+    // Le fichier lu ne doit pas avoir changé quand il est remplacé ou supprimé
+    const expectedHash = buffer === null ? undefined : rememberContent(buffer);
+    if (target === null) {
+      if (modified !== '') {
+        fileResult.error = 'the file has content that the patch does not remove';
+        continue;
+      }
+      writes.push({ path: source!, content: null, original: buffer, expectedHash });
+      diff += createUnifiedDiff(content, '', source!, 'deleted');
+    } else if (source === null) {
+      writes.push({ path: target, content: modified, original: null });
+      diff += createUnifiedDiff('', modified, target, 'created');
+    } else {
+      writes.push({
+        path: target,
+        content: formatTextForWrite(modified, original),
+        original: source === target ? buffer : null,
+        // Un fichier renommé garde ses permissions ; son hash est vérifié sur la source supprimée
+        ...(source !== target ? { permissionsFrom: source } : { expectedHash })
       });
-
-      if (isMatch) {
-        // Preserve original indentation of first line
-        const originalIndent = contentLines[i].match(/^\s*/)?.[0] || '';
-        const newLines = normalizedNew.split('\n').map((line: string, j: number) => {
-          if (j === 0)
-            return originalIndent + line.trimStart();
-          // For subsequent lines, try to preserve relative indentation
-          const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || '';
-          const newIndent = line.match(/^\s*/)?.[0] || '';
-          if (oldIndent && newIndent) {
-            const relativeIndent = newIndent.length - oldIndent.length;
-            return originalIndent + ' '.repeat(Math.max(0, relativeIndent)) + line.trimStart();
-          }
-          return line;
-        });
-
-        contentLines.splice(i, oldLines.length, ...newLines);
-        modifiedContent = contentLines.join('\n');
-        matchFound = true;
-        break;
+      if (source !== target) {
+        writes.push({ path: source, content: null, original: buffer, expectedHash });
       }
+      diff += createTwoFilesPatch(source, target, content, modified, 'original', source === target ? 'modified' : 'renamed');
     }
+  }
 
-    if (!matchFound) {
-      throw new Error(`Could not find exact match for edit:\n${edit.oldText}`);
-    }
+  if (results.some(file => file.error || file.hunks.some(hunk => !hunk.applied))) {
+    return { applied: false, files: results, diff: '' };
+  }
+  if (!options.dryRun) {
+    await writeFilesAtomically(writes);
   }
+  return { applied: true, files: results, diff };
+}
 
-  // Create unified diff
-  const diff = createUnifiedDiff(content, modifiedContent, filePath);
+// Signaler les correspondances approximatives, dont l'indentation mérite une relecture
+function formatFuzzyEditNotes(fuzzyEdits: FuzzyEdit[], filePath?: string): string {
+  return fuzzyEdits.map(({ edit, lines }) =>
+    `Note: edit ${edit}${filePath ? ` in ${filePath}` : ''} matched ignoring whitespace at line${lines.length > 1 ? 's' : ''} ${lines.join(', ')}; ` +
+    `indentation was adapted to the file, check it in the diff.\n`
+  ).join('');
+}
 
-  // Format diff with appropriate number of backticks
+function formatDiff(diff: string): string {
   let numBackticks = 3;
   while (diff.includes('`'.repeat(numBackticks))) {
     numBackticks++;
   }
-  const formattedDiff = `${'`'.repeat(numBackticks)}diff\n${diff}${'`'.repeat(numBackticks)}\n\n`;
-
-  if (!dryRun) {
-    await wslWriteFile(filePath, modifiedContent);
-  }
-
-  return formattedDiff;
+  return `${'`'.repeat(numBackticks)}diff\n${diff}${'`'.repeat(numBackticks)}\n\n`;
 }
 
 // Tool handlers
@@ -896,18 +5325,42 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         name: "read_file",
         description: "Read the complete contents of a file from the file system. " +
           "Handles various text encodings and provides detailed error messages " +
-          "if the file cannot be read. Use this tool when you need to examine " +
-          "the contents of a single file. Only works within allowed directories.",
+          "if the file cannot be read. Text files are returned as-is; UTF-16 (with a BOM), windows-1252 " +
+          "and ISO-8859-1 text files are decoded and their 'charset' is reported; images are returned " +
+          "as image content and other binary files as base64 resource blobs. Use this tool " +
+          "when you need to examine the contents of a single file. Part of a file can be read with " +
+          "'startLine'/'endLine', 'head', 'tail' or a byte 'offset'/'length'; partial reads also return the " +
+          "total line and byte counts so large files can be paged through precisely. Set 'lineNumbers' " +
+          "to prefix each line with its number. Every read returns the SHA-256 'hash' of the whole file, " +
+          "to pass as 'expectedHash' to write_file or edit_file. Only works within allowed directories.",
         inputSchema: zodToJsonSchema(ReadFileArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ReadFileOutputSchema) as ToolOutput,
+      },
+      {
+        name: "read_media_file",
+        description: "Read an image, audio or other binary file. Returns base64 encoded data " +
+          "with its detected MIME type: image and audio content for media files, and a " +
+          "resource blob for anything else (archives, .wasm, PDF...). Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(ReadMediaFileArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ReadMediaFileOutputSchema) as ToolOutput,
       },
       {
         name: "read_file_by_parts",
-        description: "Read a file in parts of approximately 95,000 characters. " +
+        description: "Read a file in parts of approximately 95,000 bytes (configurable with 'part_size'). " +
           "Use this for large files that cannot be read in one go. " +
-          "Part 1 reads the first 95,000 characters. " +
-          "Subsequent parts start at boundaries that respect line breaks when possible. " +
-          "If a requested part number exceeds the file size, an error is returned with the actual file size.",
+          "Part boundaries fall on line breaks when possible and never split a multi-byte character. " +
+          "Each response starts with a header giving the total number of parts and the byte and line " +
+          "ranges of the part. If a requested part number exceeds the file size, an error is returned with the actual file size.",
         inputSchema: zodToJsonSchema(ReadFileByPartsArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ReadFileByPartsOutputSchema) as ToolOutput,
+      },
+      {
+        name: "get_file_parts_info",
+        description: "Get the size, line count and part layout of a file before reading it with " +
+          "read_file_by_parts. Returns the total number of parts and the byte and line ranges " +
+          "of every part for the given 'part_size'. Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(GetFilePartsInfoArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(GetFilePartsInfoOutputSchema) as ToolOutput,
       },
       {
         name: "read_multiple_files",
@@ -917,20 +5370,55 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           "path as a reference. Failed reads for individual files won't stop " +
           "the entire operation. Only works within allowed directories.",
         inputSchema: zodToJsonSchema(ReadMultipleFilesArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ReadMultipleFilesOutputSchema) as ToolOutput,
       },
       {
         name: "write_file",
         description: "Create a new file or completely overwrite an existing file with new content. " +
-          "Use with caution as it will overwrite existing files without warning. " +
-          "Handles text content with proper encoding. Only works within allowed directories.",
+          "Use with caution as it will overwrite existing files without warning, unless 'createOnly' is set. " +
+          "A new file receives the content exactly as given (trailing newlines included). By default " +
+          "('lineEnding': 'preserve') the content takes the dominant line ending and the UTF-8 BOM of the file " +
+          "it replaces or extends, so LF content written over a CRLF file is converted to CRLF; pass 'lf' or " +
+          "'crlf' to choose them. An existing file keeps " +
+          "its permissions, owner and hardlinks. Use 'append' to add to the end of a file and 'mode' to set " +
+          "permissions. Pass the 'hash' returned by a read as 'expectedHash' to fail with a conflict, " +
+          "showing what changed, if the file was modified since. Only works within allowed directories.",
         inputSchema: zodToJsonSchema(WriteFileArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(WriteFileOutputSchema) as ToolOutput,
       },
       {
         name: "edit_file",
         description: "Make line-based edits to a text file. Each edit replaces exact line sequences " +
-          "with new content. Returns a git-style diff showing the changes made. " +
-          "Only works within allowed directories.",
+          "with new content. If oldText matches several places, the edit fails and lists the line of " +
+          "every candidate: add context, or choose with 'occurrence', 'startLine' (closest match) or " +
+          "'replaceAll'. Returns a git-style diff showing the changes made and the new file hash. " +
+          "The edit fails with a conflict if the file changes while it is applied, or if it no longer " +
+          "matches 'expectedHash' (a hash returned by a read). Only works within allowed directories.",
         inputSchema: zodToJsonSchema(EditFileArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(EditFileOutputSchema) as ToolOutput,
+      },
+      {
+        name: "edit_files",
+        description: "Edit several text files in one transaction. Takes a list of {path, edits} entries " +
+          "with the same edits as edit_file. Every edit of every file is checked first, and the errors " +
+          "of all files are reported together; then all files are written or none is, and files already " +
+          "written are restored if a later write fails. Returns one combined git-style diff and the new " +
+          "hash of each file. Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(EditFilesArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(EditFilesOutputSchema) as ToolOutput,
+      },
+      {
+        name: "apply_patch",
+        description: "Apply a unified diff (diff -u or git diff) to one or more files. Supports file " +
+          "creation and deletion (/dev/null) and git renames. Hunks are located around the line given " +
+          "in their header; with 'fuzz', up to that many context lines at their edges may be ignored. " +
+          "Returns, for every hunk, where it was applied (or why it failed) and a combined diff. " +
+          "The patch is applied to every file or to none: when it does not apply, the result is an error " +
+          "that still carries the per-hunk report, with 'applied' false. dryRun only checks and previews it. " +
+          "Missing directories of created or renamed files are created. " +
+          "Relative paths are resolved against 'path'. Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(ApplyPatchArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ApplyPatchOutputSchema) as ToolOutput,
       },
       {
         name: "create_directory",
@@ -939,57 +5427,192 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           "this operation will succeed silently. Perfect for setting up directory " +
           "structures for projects or ensuring required paths exist. Only works within allowed directories.",
         inputSchema: zodToJsonSchema(CreateDirectoryArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(CreateDirectoryOutputSchema) as ToolOutput,
       },
       {
         name: "list_directory",
         description: "Get a detailed listing of all files and directories in a specified path. " +
-          "Results clearly distinguish between files and directories with [FILE] and [DIR] " +
-          "prefixes. This tool is essential for understanding directory structure and " +
+          "Results clearly distinguish entry types with [FILE], [DIR], [LINK], [FIFO], [SOCKET], " +
+          "[BLOCK] and [CHAR] prefixes; symbolic links show their target. Entries can be sorted by " +
+          "name, size or modification time, and hidden entries can be left out with 'showHidden'. " +
+          "This tool is essential for understanding directory structure and " +
           "finding specific files within a directory. Only works within allowed directories.",
         inputSchema: zodToJsonSchema(ListDirectoryArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ListDirectoryOutputSchema) as ToolOutput,
+      },
+      {
+        name: "list_directory_with_sizes",
+        description: "Get a detailed listing of all files and directories in a specified path, including sizes. " +
+          "Results use the same type prefixes as list_directory, followed by each entry's size, and end " +
+          "with the number of regular files and directories (symbolic links and other entries are counted " +
+          "separately) and the combined size of the files. Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(ListDirectoryWithSizesArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ListDirectoryWithSizesOutputSchema) as ToolOutput,
       },
       {
         name: "directory_tree",
         description: "Get a recursive tree view of files and directories as a JSON structure. " +
           "Each entry includes 'name', 'type' (file/directory), and 'children' for directories. " +
-          "Files have no children array, while directories always have a children array (which may be empty). " +
-          "The output is formatted with 2-space indentation for readability. Only works within allowed directories.",
+          "Files have no children array, while directories have a children array (which may be empty), " +
+          "except directories at the 'maxDepth' limit. The output is formatted with 2-space indentation " +
+          "for readability, or as a compact ASCII tree with format 'ascii'. At most 'maxEntries' entries are " +
+          "returned, shallowest first; a truncation marker reports how many were omitted. Pass " +
+          "'respectGitignore: true' to leave out .git directories (at any depth) and git-ignored entries. The server's " +
+          "--default-excludes list does not apply to this tool. Only works within allowed directories.",
         inputSchema: zodToJsonSchema(DirectoryTreeArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(DirectoryTreeOutputSchema) as ToolOutput,
       },
       {
         name: "move_file",
         description: "Move or rename files and directories. Can move files between directories " +
-          "and rename them in a single operation. If the destination exists, the " +
-          "operation will fail. Works across different directories and can be used " +
-          "for simple renaming within the same directory. Both source and destination must be within allowed directories.",
+          "and rename them in a single operation; the destination is the new path of the entry. If the destination exists, the " +
+          "operation will fail unless 'overwrite' is true (a non-empty directory is never replaced). Use 'moves' to apply " +
+          "several moves all together or not at all. Moves to another filesystem (e.g. between /mnt/c and the Linux " +
+          "filesystem) copy then remove the source and report progress. Both source and destination must be within allowed directories.",
         inputSchema: zodToJsonSchema(MoveFileArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(MoveFileOutputSchema) as ToolOutput,
+      },
+      {
+        name: "copy_file",
+        description: "Copy a file to a new path. Fails if the destination exists unless 'overwrite' " +
+          "is true. Options keep the source timestamps and exact permissions; a symbolic link " +
+          "source is copied as the file it points to unless 'dereferenceSymlinks' is false. Both " +
+          "source and destination must be within allowed directories.",
+        inputSchema: zodToJsonSchema(CopyFileArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(CopyFileOutputSchema) as ToolOutput,
+      },
+      {
+        name: "copy_directory",
+        description: "Recursively copy a directory to a new path, in a single operation. Fails if the " +
+          "destination exists unless 'overwrite' is true, in which case the content is merged into it. " +
+          "Symbolic links are copied as links unless 'dereferenceSymlinks' is true. Returns the number " +
+          "of files, directories and links copied and their total size. Both source and destination " +
+          "must be within allowed directories.",
+        inputSchema: zodToJsonSchema(CopyDirectoryArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(CopyDirectoryOutputSchema) as ToolOutput,
+      },
+      {
+        name: "create_symlink",
+        description: "Create a symbolic link at 'path' pointing to 'target'. A relative target is stored as " +
+          "given and resolved from the directory of the link. The target may not exist yet, but must " +
+          "lead inside allowed directories, including through '..' and other links. Fails if 'path' " +
+          "exists unless 'overwrite' is true. Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(CreateSymlinkArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(CreateSymlinkOutputSchema) as ToolOutput,
+      },
+      {
+        name: "create_hardlink",
+        description: "Create a hard link at 'path' to an existing file: both names then share the same " +
+          "content. Directories cannot be hard linked, and both paths must be on the same filesystem. " +
+          "Fails if 'path' exists unless 'overwrite' is true. Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(CreateHardlinkArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(CreateHardlinkOutputSchema) as ToolOutput,
+      },
+      {
+        name: "read_link",
+        description: "Read the target of a symbolic link without following it. Returns the target as stored, " +
+          "the path it resolves to, whether that path exists and whether it is within allowed directories. " +
+          "Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(ReadLinkArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ReadLinkOutputSchema) as ToolOutput,
+      },
+      {
+        name: "delete_file",
+        description: "Delete a file or a symbolic link (never its target) by moving it to the server's " +
+          "trash, from where it can be restored with restore_from_trash. Returns the trash item id. " +
+          "Directories are refused: use delete_directory. With dryRun, only reports what would be " +
+          "deleted. Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(DeleteFileArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(DeleteFileOutputSchema) as ToolOutput,
+      },
+      {
+        name: "delete_directory",
+        description: "Delete a directory by moving it to the server's trash, from where it can be " +
+          "restored with restore_from_trash. Only empty directories are deleted unless 'recursive' " +
+          "is true. Allowed directories themselves (and their parents) can never be deleted. A directory " +
+          "on another filesystem than the trash (e.g. under /mnt/c with the default trash) is copied " +
+          "into it, which takes as long as copying the whole tree. With " +
+          "dryRun, reports the number of entries and the size that would be deleted. Only works " +
+          "within allowed directories.",
+        inputSchema: zodToJsonSchema(DeleteDirectoryArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(DeleteDirectoryOutputSchema) as ToolOutput,
+      },
+      {
+        name: "list_trash",
+        description: "List the items in the server's trash that were deleted from allowed directories, " +
+          "newest first, with their id, original location, type, size and deletion time.",
+        inputSchema: zodToJsonSchema(ListTrashArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ListTrashOutputSchema) as ToolOutput,
+      },
+      {
+        name: "restore_from_trash",
+        description: "Restore a trash item to its original location, or to 'destination'. Fails if " +
+          "something already exists there. Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(RestoreFromTrashArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(RestoreFromTrashOutputSchema) as ToolOutput,
+      },
+      {
+        name: "empty_trash",
+        description: "Permanently delete items from the server's trash: all items deleted from allowed " +
+          "directories, or only the given ids and/or those older than 'olderThanDays'. This cannot be " +
+          "undone; use dryRun to see what would be deleted.",
+        inputSchema: zodToJsonSchema(EmptyTrashArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(EmptyTrashOutputSchema) as ToolOutput,
       },
       {
         name: "search_files_by_name",
-        description: "Recursively search for files and directories matching a pattern. " +
-          "Searches through all subdirectories from the starting path. The search " +
-          "is case-insensitive and matches partial names. Returns full paths to all " +
-          "matching items. Great for finding files when you don't know their exact location. " +
-          "Only searches within allowed directories.",
+        description: "Recursively search for files and directories matching a glob pattern. " +
+          "Searches through all subdirectories from the starting path. Supports **, *, ?, " +
+          "character classes and {a,b} alternatives; patterns without '/' match entry names, " +
+          "patterns with '/' (like 'src/**/*.ts') match paths relative to the starting path. " +
+          "The search is case-insensitive and a pattern without wildcards matches partial names. " +
+          "Can filter by type (file, directory, symlink) and depth. Returns full paths to all " +
+          "matching items, sorted. Great for finding files when you don't know their exact location. " +
+          "Files ignored by .gitignore, .ignore or global git excludes are skipped unless " +
+          "'respectIgnoreFiles' is false. Only searches within allowed directories.",
         inputSchema: zodToJsonSchema(SearchFilesArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(SearchFilesOutputSchema) as ToolOutput,
       },
       {
         name: "search_in_files",
         description: "Search for text patterns within files recursively. " +
-          "Supports plain text and regular expression searches. Can filter by file patterns, " +
+          "Supports plain text and regular expression searches (POSIX extended, PCRE or JavaScript " +
+          "syntax with 'regexFlavor'), and patterns spanning several lines with 'multiline' (run on the " +
+          "JavaScript engine: extended and PCRE patterns are translated, and constructs it cannot reproduce " +
+          "such as possessive quantifiers or \\K are rejected with an error); each hit " +
+          "reports the line and column range of the match. Can filter by file patterns, " +
           "exclude certain files/directories, limit results, and show context lines. " +
-          "Returns matching lines with file paths and line numbers. " +
-          "Automatically excludes common directories like .git and node_modules. " +
+          "Returns matching lines grouped by file, with line and column numbers and separate " +
+          "before/after context; 'maxResults' caps the total number of matching lines across all files. " +
+          "Use outputMode 'filesWithMatches' or 'count' to only list matching files or count matches per file. " +
+          "Unreadable or binary files are reported as warnings, separately from the results. " +
+          "Automatically excludes common directories like .git and node_modules, and skips files " +
+          "ignored by .gitignore, .ignore or global git excludes unless 'respectIgnoreFiles' is false. " +
           "Only searches within allowed directories.",
         inputSchema: zodToJsonSchema(SearchInFilesArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(SearchInFilesOutputSchema) as ToolOutput,
+      },
+      {
+        name: "replace_in_files",
+        description: "Replace a text or regex pattern in every matching file under a directory. " +
+          "Accepts the same pattern, include/exclude and ignore options as search_in_files; with a " +
+          "regex flavor, the replacement can reference capture groups ($1, $<name>). Returns the number " +
+          "of replacements per file and a combined git-style diff. With dryRun, nothing is written; " +
+          "otherwise all files are updated together or not at all, and a file changed since it was read " +
+          "makes the whole replacement fail with a conflict. Refuses to run when more than " +
+          "'maxFiles' files match. Only works within allowed directories.",
+        inputSchema: zodToJsonSchema(ReplaceInFilesArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ReplaceInFilesOutputSchema) as ToolOutput,
       },
       {
         name: "get_file_info",
         description: "Retrieve detailed metadata about a file or directory. Returns comprehensive " +
           "information including size, creation time, last modified time, permissions, " +
           "and type. This tool is perfect for understanding file characteristics " +
-          "without reading the actual content. Only works within allowed directories.",
+          "without reading the actual content. A symbolic link is described itself, with its target. " +
+          "Only works within allowed directories.",
         inputSchema: zodToJsonSchema(GetFileInfoArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(GetFileInfoOutputSchema) as ToolOutput,
       },
       {
         name: "list_allowed_directories",
@@ -1000,17 +5623,19 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           properties: {},
           required: [],
         } as ToolInput,
+        outputSchema: zodToJsonSchema(ListAllowedDirectoriesOutputSchema) as ToolOutput,
       },
       {
         name: "list_wsl_distributions",
         description: "Lists all available WSL distributions and shows which one is currently being used.",
         inputSchema: zodToJsonSchema(ListWslDistrosArgsSchema) as ToolInput,
+        outputSchema: zodToJsonSchema(ListWslDistributionsOutputSchema) as ToolOutput,
       },
     ],
   };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   try {
     const { name, arguments: args } = request.params;
     switch (name) {
@@ -1019,10 +5644,144 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (!parsed.success) {
           throw new Error(`Invalid arguments for read_file: ${parsed.error}`);
         }
+        const { startLine, endLine, head, tail, offset, length, lineNumbers } = parsed.data;
+        const rangeModes = [
+          startLine !== undefined || endLine !== undefined,
+          head !== undefined,
+          tail !== undefined,
+          offset !== undefined || length !== undefined
+        ].filter(Boolean).length;
+        if (rangeModes > 1) {
+          throw new Error("Invalid arguments for read_file: use only one of startLine/endLine, head, tail or offset/length");
+        }
+        if (startLine !== undefined && endLine !== undefined && endLine < startLine) {
+          throw new Error("Invalid arguments for read_file: endLine must be greater than or equal to startLine");
+        }
+
+        const validPath = await validatePath(parsed.data.path);
+        if (rangeModes === 0) {
+          const content = await wslReadFileBuffer(validPath);
+          const hash = rememberContent(content);
+          const detectedMimeType = detectMimeType(validPath, content);
+          const decoded = decodeFileText(detectedMimeType, content);
+          if (decoded === null) {
+            return {
+              content: [
+                toBinaryContent(validPath, content, detectedMimeType),
+                { type: "text", text: `[${countLines(content)} lines, ${content.length} bytes | hash: ${hash}]` }
+              ],
+              structuredContent: {
+                path: validPath,
+                mimeType: detectedMimeType,
+                encoding: 'base64',
+                content: content.toString('base64'),
+                totalBytes: content.length,
+                totalLines: countLines(content),
+                hash
+              } satisfies z.infer<typeof ReadFileOutputSchema>,
+            };
+          }
+          const text = lineNumbers ? addLineNumbers(decoded.text, 1) : decoded.text;
+          const charset = decoded.charset !== 'utf-8' ? decoded.charset : undefined;
+          return {
+            content: [
+              { type: "text", text },
+              {
+                type: "text",
+                text: `[${countLines(content)} lines, ${content.length} bytes${charset ? ` | decoded from ${charset}` : ''} | hash: ${hash}]`
+              }
+            ],
+            structuredContent: {
+              path: validPath,
+              mimeType: detectedMimeType === 'application/octet-stream' ? 'text/plain' : detectedMimeType,
+              encoding: 'utf-8',
+              ...(charset ? { charset } : {}),
+              content: text,
+              totalBytes: content.length,
+              totalLines: countLines(content),
+              hash
+            } satisfies z.infer<typeof ReadFileOutputSchema>,
+          };
+        }
+
+        const range = await readFileRange(validPath, { startLine, endLine, head, tail, offset, length });
+        const hash = range.hash;
+        let summary: string;
+        let text: string;
+        let charset: LegacyCharset | undefined;
+        if (range.startByte !== undefined) {
+          // Une plage d'octets peut couper un caractère multi-octets : seul l'octet NUL signale un binaire
+          if (range.content.subarray(0, 8000).includes(0)) {
+            return {
+              content: [toBinaryContent(validPath, range.content, 'application/octet-stream')],
+              structuredContent: {
+                path: validPath,
+                mimeType: 'application/octet-stream',
+                encoding: 'base64',
+                content: range.content.toString('base64'),
+                totalBytes: range.totalBytes,
+                totalLines: range.totalLines,
+                startByte: range.startByte,
+                endByte: range.endByte,
+                hash
+              } satisfies z.infer<typeof ReadFileOutputSchema>,
+            };
+          }
+          text = range.content.toString('utf-8');
+          summary = range.content.length > 0
+            ? `Bytes ${range.startByte}-${range.endByte! - 1} of ${range.totalBytes} bytes, ${range.totalLines} lines total`
+            : `No bytes returned; file has ${range.totalBytes} bytes, ${range.totalLines} lines total`;
+        } else {
+          // Des lignes d'un fichier sur 8 bits sont décodées comme le fichier entier (pas l'UTF-16, coupé par sed)
+          const decoded = decodeFileText('text/plain', range.content);
+          if (decoded?.charset === 'windows-1252' || decoded?.charset === 'iso-8859-1') {
+            charset = decoded.charset;
+          }
+          text = charset ? decoded!.text : range.content.toString('utf-8');
+          if (lineNumbers) {
+            text = addLineNumbers(text, range.firstLine!);
+          }
+          summary = range.content.length > 0
+            ? `Lines ${range.firstLine}-${range.lastLine} of ${range.totalLines} lines, ${range.totalBytes} bytes total`
+            : `No lines returned; file has ${range.totalLines} lines, ${range.totalBytes} bytes total`;
+        }
+        return {
+          content: [
+            { type: "text", text },
+            { type: "text", text: `[${summary}${charset ? ` | decoded from ${charset}` : ''} | hash: ${hash}]` }
+          ],
+          structuredContent: {
+            path: validPath,
+            mimeType: 'text/plain',
+            encoding: 'utf-8',
+            ...(charset ? { charset } : {}),
+            content: text,
+            totalBytes: range.totalBytes,
+            totalLines: range.totalLines,
+            firstLine: range.firstLine,
+            lastLine: range.lastLine,
+            startByte: range.startByte,
+            endByte: range.endByte,
+            hash
+          } satisfies z.infer<typeof ReadFileOutputSchema>,
+        };
+      }
+      case "read_media_file": {
+        const parsed = ReadMediaFileArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for read_media_file: ${parsed.error}`);
+        }
         const validPath = await validatePath(parsed.data.path);
-        const content = await wslReadFile(validPath);
+        const content = await wslReadFileBuffer(validPath);
+        const mimeType = detectMimeType(validPath, content);
         return {
-          content: [{ type: "text", text: content }],
+          content: [toBinaryContent(validPath, content, mimeType)],
+          structuredContent: {
+            path: validPath,
+            mimeType,
+            size: content.length,
+            hash: hashContent(content)
+          } satisfies z.infer<typeof ReadMediaFileOutputSchema>,
         };
       }
       case "read_file_by_parts": {
@@ -1031,13 +5790,45 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`Invalid arguments for read_file_by_parts: ${parsed.error}`);
         }
         const validPath = await validatePath(parsed.data.path);
-        const content = await readFileByParts(validPath, parsed.data.part_number);
+        const part = await readFileByParts(validPath, parsed.data.part_number, parsed.data.part_size);
+        const header = `[Part ${part.partNumber} of ${part.totalParts} | ${formatPartRange(part)} | ` +
+          `file: ${part.totalBytes} bytes, ${part.totalLines} lines | hash: ${part.hash}]`;
         
         return {
-          content: [{ 
-            type: "text", 
-            text: content
-          }],
+          content: [
+            { type: "text", text: header },
+            { type: "text", text: part.content }
+          ],
+          structuredContent: {
+            path: validPath,
+            ...part
+          } satisfies z.infer<typeof ReadFileByPartsOutputSchema>,
+        };
+      }
+      case "get_file_parts_info": {
+        const parsed = GetFilePartsInfoArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for get_file_parts_info: ${parsed.error}`);
+        }
+        const validPath = await validatePath(parsed.data.path);
+        const info = await getFilePartsInfo(validPath, parsed.data.part_size);
+        const lines = [
+          `Size: ${info.totalBytes} bytes`,
+          `Lines: ${info.totalLines}`,
+          `Part size: ${info.partSize} bytes`,
+          `Total parts: ${info.parts.length}`,
+          ...info.parts.map(part => `Part ${part.partNumber}: ${formatPartRange(part)}`)
+        ];
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+          structuredContent: {
+            path: validPath,
+            totalBytes: info.totalBytes,
+            totalLines: info.totalLines,
+            partSize: info.partSize,
+            totalParts: info.parts.length,
+            parts: info.parts
+          } satisfies z.infer<typeof GetFilePartsInfoOutputSchema>,
         };
       }
       case "read_multiple_files": {
@@ -1045,19 +5836,46 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (!parsed.success) {
           throw new Error(`Invalid arguments for read_multiple_files: ${parsed.error}`);
         }
-        const results = await Promise.all(parsed.data.paths.map(async (filePath: string) => {
+        type FileResult = z.infer<typeof ReadMultipleFilesOutputSchema>['files'][number];
+        const results = await Promise.all(parsed.data.paths.map(async (filePath: string): Promise<{ text: string; file: FileResult }> => {
           try {
             const validPath = await validatePath(filePath);
-            const content = await wslReadFile(validPath);
-            return `${filePath}:\n${content}\n`;
+            const content = await wslReadFileBuffer(validPath);
+            const mimeType = detectMimeType(validPath, content);
+            const decoded = decodeFileText(mimeType, content);
+            if (decoded === null) {
+              return {
+                text: `${filePath}: Binary file (${mimeType}, ${content.length} bytes) - use read_media_file to read it`,
+                file: { path: filePath, mimeType, size: content.length, hash: hashContent(content) }
+              };
+            }
+            const hash = rememberContent(content);
+            const charset = decoded.charset !== 'utf-8' ? decoded.charset : undefined;
+            return {
+              text: `${filePath} (${charset ? `decoded from ${charset}, ` : ''}hash: ${hash}):\n${decoded.text}\n`,
+              file: {
+                path: filePath,
+                content: decoded.text,
+                mimeType: mimeType === 'application/octet-stream' ? 'text/plain' : mimeType,
+                ...(charset ? { charset } : {}),
+                size: content.length,
+                hash
+              }
+            };
           }
           catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
-            return `${filePath}: Error - ${errorMessage}`;
+            return {
+              text: `${filePath}: Error - ${errorMessage}`,
+              file: { path: filePath, error: errorMessage }
+            };
           }
         }));
         return {
-          content: [{ type: "text", text: results.join("\n---\n") }],
+          content: [{ type: "text", text: results.map(result => result.text).join("\n---\n") }],
+          structuredContent: {
+            files: results.map(result => result.file)
+          } satisfies z.infer<typeof ReadMultipleFilesOutputSchema>,
         };
       }
       case "write_file": {
@@ -1065,10 +5883,35 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (!parsed.success) {
           throw new Error(`Invalid arguments for write_file: ${parsed.error}`);
         }
+        if (parsed.data.append && parsed.data.createOnly) {
+          throw new Error("Invalid arguments for write_file: 'append' and 'createOnly' cannot be combined");
+        }
+        if (parsed.data.createOnly && parsed.data.expectedHash) {
+          throw new Error("Invalid arguments for write_file: 'expectedHash' cannot be combined with 'createOnly'");
+        }
         const validPath = await validatePath(parsed.data.path);
-        await wslWriteFile(validPath, parsed.data.content);
+        // Fins de ligne et BOM du fichier existant (absent en mode createOnly)
+        const format = parsed.data.createOnly ? null : await wslSampleTextFormat(validPath);
+        const content = formatContentForFile(parsed.data.content, format, parsed.data.lineEnding, parsed.data.append);
+        await wslWriteFile(validPath, content, {
+          mode: parsed.data.mode,
+          append: parsed.data.append,
+          createOnly: parsed.data.createOnly,
+          expectedHash: parsed.data.expectedHash
+        });
+        // Après un ajout, le contenu complet n'est connu que dans la distribution
+        const hash = parsed.data.append ? await wslFileHash(validPath) : rememberContent(content);
+        const action = parsed.data.append ? 'appended to' : 'wrote to';
         return {
-          content: [{ type: "text", text: `Successfully wrote to ${parsed.data.path}` }],
+          content: [{ type: "text", text: `Successfully ${action} ${parsed.data.path} (hash: ${hash})` }],
+          structuredContent: {
+            path: validPath,
+            bytesWritten: Buffer.byteLength(content),
+            operation: parsed.data.append ? 'append' : parsed.data.createOnly ? 'create' : 'write',
+            hash,
+            lineEnding: detectLineEnding(content),
+            bom: content.startsWith(UTF8_BOM)
+          } satisfies z.infer<typeof WriteFileOutputSchema>,
         };
       }
       case "edit_file": {
@@ -1077,9 +5920,78 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`Invalid arguments for edit_file: ${parsed.error}`);
         }
         const validPath = await validatePath(parsed.data.path);
-        const result = await applyFileEdits(validPath, parsed.data.edits, parsed.data.dryRun);
+        const { diff, hash, fuzzyEdits, lineEnding, bom } = await applyFileEdits(
+          validPath,
+          parsed.data.edits,
+          parsed.data.dryRun,
+          parsed.data.expectedHash,
+          parsed.data.lineEnding
+        );
+        return {
+          content: [{ type: "text", text: `${formatFuzzyEditNotes(fuzzyEdits)}${formatDiff(diff)}hash: ${hash}` }],
+          structuredContent: {
+            path: validPath,
+            diff,
+            dryRun: parsed.data.dryRun,
+            hash,
+            fuzzyEdits,
+            lineEnding,
+            bom
+          } satisfies z.infer<typeof EditFileOutputSchema>,
+        };
+      }
+      case "edit_files": {
+        const parsed = EditFilesArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for edit_files: ${parsed.error}`);
+        }
+        const entries = [];
+        const seen = new Set<string>();
+        for (const entry of parsed.data.files) {
+          const validPath = await validatePath(entry.path);
+          if (seen.has(validPath)) {
+            throw new Error(`Invalid arguments for edit_files: ${entry.path} is listed more than once`);
+          }
+          seen.add(validPath);
+          entries.push({ ...entry, path: validPath });
+        }
+        const result = await editFiles(entries, parsed.data.dryRun, parsed.data.lineEnding);
+        const notes = result.files.map(file => formatFuzzyEditNotes(file.fuzzyEdits, file.path)).join('');
+        const hashes = result.files.map(file => `${file.path}: ${file.hash}`).join('\n');
+        return {
+          content: [{ type: "text", text: `${notes}${formatDiff(result.diff)}hashes:\n${hashes}` }],
+          structuredContent: {
+            dryRun: parsed.data.dryRun,
+            files: result.files,
+            diff: result.diff
+          } satisfies z.infer<typeof EditFilesOutputSchema>,
+        };
+      }
+      case "apply_patch": {
+        const parsed = ApplyPatchArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for apply_patch: ${parsed.error}`);
+        }
+        const basePath = parsed.data.path === undefined ? undefined : await validatePath(parsed.data.path);
+        const result = await applyPatch(parsed.data.patch, {
+          basePath,
+          fuzz: parsed.data.fuzz,
+          dryRun: parsed.data.dryRun
+        });
+        const summary = !result.applied
+          ? `Patch does not apply${parsed.data.dryRun ? '' : ', no file was written'}:\n`
+          : `${parsed.data.dryRun ? 'Patch applies' : 'Patch applied'} to ${result.files.length} file(s):\n`;
+        const report = summary + formatPatchReport(result.files);
         return {
-          content: [{ type: "text", text: result }],
+          content: [{ type: "text", text: result.diff ? `${report}\n\n${formatDiff(result.diff)}` : report }],
+          structuredContent: {
+            dryRun: parsed.data.dryRun,
+            applied: result.applied,
+            files: result.files,
+            diff: result.diff
+          } satisfies z.infer<typeof ApplyPatchOutputSchema>,
+          // Le rapport structuré accompagne l'échec : le client voit quel hunk n'a pas pu s'appliquer
+          ...(result.applied ? {} : { isError: true })
         };
       }
       case "create_directory": {
@@ -1091,6 +6003,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         await wslMkdir(validPath);
         return {
           content: [{ type: "text", text: `Successfully created directory ${parsed.data.path}` }],
+          structuredContent: {
+            path: validPath
+          } satisfies z.infer<typeof CreateDirectoryOutputSchema>,
         };
       }
       case "list_directory": {
@@ -1099,12 +6014,58 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`Invalid arguments for list_directory: ${parsed.error}`);
         }
         const validPath = await validatePath(parsed.data.path);
-        const entries = await wslReaddir(validPath);
+        const entries = await wslReaddir(validPath, { sortBy: parsed.data.sortBy, showHidden: parsed.data.showHidden });
         const formatted = entries
-          .map((entry) => `${entry.isDirectory() ? "[DIR]" : "[FILE]"} ${entry.name}`)
+          .map((entry) => `${ENTRY_TYPE_LABELS[entry.type]} ${formatEntryName(entry)}`)
           .join("\n");
         return {
           content: [{ type: "text", text: formatted }],
+          structuredContent: {
+            path: validPath,
+            entries: entries.map(toEntryOutput)
+          } satisfies z.infer<typeof ListDirectoryOutputSchema>,
+        };
+      }
+      case "list_directory_with_sizes": {
+        const parsed = ListDirectoryWithSizesArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for list_directory_with_sizes: ${parsed.error}`);
+        }
+        const validPath = await validatePath(parsed.data.path);
+        const entries = await wslReaddir(validPath, { sortBy: parsed.data.sortBy, showHidden: parsed.data.showHidden });
+        // Seuls les fichiers réguliers comptent comme fichiers et dans la taille cumulée
+        const files = entries.filter(entry => entry.type === 'file');
+        const totalDirectories = entries.filter(entry => entry.type === 'directory').length;
+        const totalSymlinks = entries.filter(entry => entry.type === 'symlink').length;
+        const totalOther = entries.length - files.length - totalDirectories - totalSymlinks;
+        const totalSize = files.reduce((sum, entry) => sum + entry.size, 0);
+
+        const labels = entries.map(entry => `${ENTRY_TYPE_LABELS[entry.type]} ${formatEntryName(entry)}`);
+        const labelWidth = Math.max(0, ...labels.map(label => label.length));
+        const formatted = [
+          ...entries.map((entry, i) => entry.type === 'directory'
+            ? labels[i]
+            : `${labels[i].padEnd(labelWidth)}  ${formatSize(entry.size).padStart(10)}`),
+          "",
+          `Total: ${[
+            `${files.length} files`,
+            `${totalDirectories} directories`,
+            ...(totalSymlinks > 0 ? [`${totalSymlinks} symlinks`] : []),
+            ...(totalOther > 0 ? [`${totalOther} other entries`] : [])
+          ].join(', ')}`,
+          `Combined size: ${formatSize(totalSize)}`
+        ].join("\n");
+        return {
+          content: [{ type: "text", text: formatted }],
+          structuredContent: {
+            path: validPath,
+            entries: entries.map(toEntryOutput),
+            totalFiles: files.length,
+            totalDirectories,
+            totalSymlinks,
+            totalOther,
+            totalSize
+          } satisfies z.infer<typeof ListDirectoryWithSizesOutputSchema>,
         };
       }
       case "directory_tree": {
@@ -1114,88 +6075,272 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
         
         const validPath = await validatePath(parsed.data.path);
-        const wslPath = toWslPath(validPath);
-        
-        // Utiliser find pour obtenir tous les fichiers et répertoires en une seule commande
+        let result: DirectoryTreeResult;
         try {
-          // %y = type (d pour directory, f pour file)
-          // %P = chemin relatif depuis le point de départ
-          const findResult = await execWslCommand(
-            `find "${wslPath}" -printf "%y %P\\n" | sort`
-          );
-          
-          if (!findResult.trim()) {
-            return {
-              content: [{
-                type: "text",
-                text: JSON.stringify([], null, 2)
-              }],
-            };
-          }
-          
-          // Parser la sortie de find et reconstruire l'arbre
-          const lines = findResult.trim().split('\n');
-          const tree: TreeEntry[] = [];
-          const pathMap = new Map<string, TreeEntry>();
-          
-          // Première ligne devrait être le répertoire racine lui-même (chemin vide)
-          // On la saute car on veut le contenu du répertoire, pas le répertoire lui-même
-          const startIndex = lines[0].trim() === 'd ' ? 1 : 0;
-          
-          for (let i = startIndex; i < lines.length; i++) {
-            const line = lines[i].trim();
-            const [type, ...pathParts] = line.split(' ');
-            const relativePath = pathParts.join(' ');
-            
-            if (!relativePath) continue; // Ignorer les lignes vides
-            
-            const parts = relativePath.split('/');
-            const name = parts[parts.length - 1];
-            const parentPath = parts.slice(0, -1).join('/');
-            
-            const entry: TreeEntry = {
-              name,
-              type: type === 'd' ? 'directory' : 'file'
-            };
-            
-            if (type === 'd') {
-              entry.children = [];
-            }
-            
-            pathMap.set(relativePath, entry);
-            
-            if (parentPath) {
-              // Ajouter à son parent
-              const parent = pathMap.get(parentPath);
-              if (parent && parent.children) {
-                parent.children.push(entry);
-              }
-            } else {
-              // Entrée de premier niveau
-              tree.push(entry);
-            }
-          }
-          
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify(tree, null, 2)
-            }],
-          };
+          result = await buildDirectoryTree(validPath, {
+            maxDepth: parsed.data.maxDepth,
+            excludePatterns: parsed.data.excludePatterns,
+            respectGitignore: parsed.data.respectGitignore,
+            includeSizes: parsed.data.includeSizes,
+            maxEntries: parsed.data.maxEntries
+          });
         } catch (error: any) {
           throw new Error(`Failed to get directory tree for ${parsed.data.path}: ${error.message}`);
         }
+        
+        let text = parsed.data.format === 'ascii'
+          ? formatTreeAscii(validPath, result, parsed.data.includeSizes)
+          : JSON.stringify(result.tree, null, 2);
+        if (result.omittedEntries > 0) {
+          text += `\n\n[Truncated: ${result.omittedEntries} of ${result.totalEntries} entries omitted (maxEntries: ${parsed.data.maxEntries})]`;
+        }
+        
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            path: validPath,
+            tree: result.tree,
+            totalEntries: result.totalEntries,
+            omittedEntries: result.omittedEntries
+          } satisfies z.infer<typeof DirectoryTreeOutputSchema>,
+        };
       }
       case "move_file": {
         const parsed = MoveFileArgsSchema.safeParse(args);
         if (!parsed.success) {
           throw new Error(`Invalid arguments for move_file: ${parsed.error}`);
         }
-        const validSourcePath = await validatePath(parsed.data.source);
+        const requests = parsed.data.moves ?? [{ source: parsed.data.source!, destination: parsed.data.destination! }];
+        const progressToken = request.params._meta?.progressToken;
+        const moves = await moveEntries(requests, {
+          overwrite: parsed.data.overwrite,
+          onProgress: progressToken === undefined ? undefined : (progress, total, message) =>
+            extra.sendNotification({ method: "notifications/progress", params: { progressToken, progress, total, message } })
+        });
+        const lines = moves.map(move =>
+          `Successfully moved ${move.source} to ${move.destination}` +
+          (move.replace ? ' (replaced the existing destination)' : '') +
+          (move.crossFilesystem ? ` (copied across filesystems: ${move.entries} entries, ${formatSize(move.size)})` : '')
+        );
+        return {
+          content: [{ type: "text", text: lines.join('\n') }],
+          structuredContent: {
+            ...(parsed.data.moves === undefined ? { source: moves[0].source, destination: moves[0].destination } : {}),
+            moves: moves.map(move => ({
+              source: move.source,
+              destination: move.destination,
+              type: move.type,
+              overwritten: move.replace,
+              crossFilesystem: move.crossFilesystem
+            }))
+          } satisfies z.infer<typeof MoveFileOutputSchema>,
+        };
+      }
+      case "copy_file":
+      case "copy_directory": {
+        const recursive = name === "copy_directory";
+        const parsed = recursive ? CopyDirectoryArgsSchema.safeParse(args) : CopyFileArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for ${name}: ${parsed.error}`);
+        }
+        // Un lien copié tel quel n'est pas résolu : seul son emplacement doit être autorisé
+        const validSourcePath = !recursive && !parsed.data.dereferenceSymlinks
+          ? await validateEntryPath(parsed.data.source)
+          : await validatePath(parsed.data.source);
         const validDestPath = await validatePath(parsed.data.destination);
-        await wslRename(validSourcePath, validDestPath);
+        if (validDestPath === validSourcePath || validDestPath.startsWith(`${validSourcePath}/`)) {
+          throw new Error(`Cannot copy ${parsed.data.source} to itself or into itself`);
+        }
+        const summary = await wslCopy(validSourcePath, validDestPath, {
+          recursive,
+          overwrite: parsed.data.overwrite,
+          preserveTimestamps: parsed.data.preserveTimestamps,
+          preserveMode: parsed.data.preserveMode,
+          dereferenceSymlinks: parsed.data.dereferenceSymlinks
+        });
+        const counts = ([
+          [summary.files, 'file', 'files'],
+          [summary.directories, 'directory', 'directories'],
+          [summary.symlinks, 'symlink', 'symlinks'],
+          [summary.other, 'other entry', 'other entries']
+        ] as const).filter(([count]) => count > 0).map(([count, singular, plural]) => `${count} ${count === 1 ? singular : plural}`);
+        return {
+          content: [{
+            type: "text",
+            text: `Copied ${parsed.data.source} to ${parsed.data.destination}${summary.overwritten ? ' (overwritten)' : ''}: ` +
+              `${counts.join(', ')}, ${formatSize(summary.totalBytes)}`
+          }],
+          structuredContent: {
+            source: validSourcePath,
+            destination: validDestPath,
+            ...summary
+          } satisfies z.infer<typeof CopyFileOutputSchema>,
+        };
+      }
+      case "create_symlink": {
+        const parsed = CreateSymlinkArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for create_symlink: ${parsed.error}`);
+        }
+        const validPath = await validateEntryPath(parsed.data.path);
+        const target = await validateLinkTarget(validPath, parsed.data.target);
+        await wslSymlink(validPath, target.target, parsed.data.overwrite);
+        return {
+          content: [{
+            type: "text",
+            text: `Successfully created symbolic link ${validPath} -> ${target.target}` +
+              (target.exists ? '' : ` (${target.resolved} does not exist yet)`)
+          }],
+          structuredContent: {
+            path: validPath,
+            target: target.target,
+            resolvedTarget: target.resolved,
+            targetExists: target.exists
+          } satisfies z.infer<typeof CreateSymlinkOutputSchema>,
+        };
+      }
+      case "create_hardlink": {
+        const parsed = CreateHardlinkArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for create_hardlink: ${parsed.error}`);
+        }
+        const validPath = await validateEntryPath(parsed.data.path);
+        const validTarget = await validatePath(parsed.data.target);
+        const targetStats = await wslStat(validTarget);
+        if (targetStats.isDirectory()) {
+          throw new Error(`Cannot create a hard link to the directory ${validTarget}, use create_symlink instead`);
+        }
+        await wslHardlink(validPath, validTarget, parsed.data.overwrite);
+        const links = Number(await execWslCommand(['stat', '-c', '%h', '--', toWslPath(validPath)]));
+        return {
+          content: [{ type: "text", text: `Successfully created hard link ${validPath} to ${validTarget} (${links} links)` }],
+          structuredContent: {
+            path: validPath,
+            target: validTarget,
+            links
+          } satisfies z.infer<typeof CreateHardlinkOutputSchema>,
+        };
+      }
+      case "read_link": {
+        const parsed = ReadLinkArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for read_link: ${parsed.error}`);
+        }
+        const validPath = await validateEntryPath(parsed.data.path);
+        const link = await wslReadLink(validPath);
+        const withinAllowedDirectories = link.resolved !== null && isWithinAllowedDirectories(link.resolved);
+        return {
+          content: [{
+            type: "text",
+            text: `${validPath} -> ${link.target}\n` +
+              (link.resolved === null
+                ? 'The link cannot be resolved (loop of symbolic links)'
+                : `Resolves to ${link.resolved}${link.exists ? '' : ' (does not exist)'}` +
+                  (withinAllowedDirectories ? '' : ', outside allowed directories'))
+          }],
+          structuredContent: {
+            path: validPath,
+            target: link.target,
+            resolvedTarget: link.resolved,
+            targetExists: link.exists,
+            withinAllowedDirectories
+          } satisfies z.infer<typeof ReadLinkOutputSchema>,
+        };
+      }
+      case "delete_file":
+      case "delete_directory": {
+        const directory = name === "delete_directory";
+        const parsed = directory ? DeleteDirectoryArgsSchema.safeParse(args) : DeleteFileArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for ${name}: ${parsed.error}`);
+        }
+        const result = await deleteEntry(parsed.data.path, {
+          directory,
+          recursive: 'recursive' in parsed.data && parsed.data.recursive === true,
+          dryRun: parsed.data.dryRun
+        });
+        const details = `${result.type}, ${result.entries > 1 ? `${result.entries} entries, ` : ''}${formatSize(result.size)}`;
+        const text = result.trashEntry
+          ? `Moved ${result.path} (${details}) to the trash, id: ${result.trashEntry.id}`
+          : `Would move ${result.path} (${details}) to the trash`;
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            path: result.path,
+            type: result.type,
+            size: result.size,
+            entries: result.entries,
+            dryRun: parsed.data.dryRun,
+            ...(result.trashEntry ? { trashId: result.trashEntry.id } : {})
+          } satisfies z.infer<typeof DeleteFileOutputSchema>,
+        };
+      }
+      case "list_trash": {
+        const parsed = ListTrashArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for list_trash: ${parsed.error}`);
+        }
+        // Le chemin d'origine peut ne plus exister : simple préfixe, sans validation
+        const prefix = parsed.data.path === undefined ? null : resolve(expandHome(parsed.data.path)).replace(/\/+$/, '');
+        const items = (await listTrash()).filter(item =>
+          prefix === null || item.originalPath === prefix || item.originalPath.startsWith(`${prefix}/`)
+        );
+        const formatted = items.length > 0
+          ? items.map(item => `${item.id}  ${item.deletedAt}  ${item.type}  ${formatSize(item.size)}  ${item.originalPath}`).join('\n')
+          : "Trash is empty.";
+        return {
+          content: [{ type: "text", text: formatted }],
+          structuredContent: {
+            trashDirectory: await getTrashDirectory(),
+            items,
+            totalSize: items.reduce((total, item) => total + item.size, 0)
+          } satisfies z.infer<typeof ListTrashOutputSchema>,
+        };
+      }
+      case "restore_from_trash": {
+        const parsed = RestoreFromTrashArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for restore_from_trash: ${parsed.error}`);
+        }
+        const entry = await findTrashEntry(parsed.data.id);
+        const destination = await validateEntryPath(parsed.data.destination ?? entry.originalPath);
+        await restoreFromTrash(entry, destination);
+        return {
+          content: [{ type: "text", text: `Restored ${entry.originalPath} to ${destination}` }],
+          structuredContent: {
+            id: entry.id,
+            originalPath: entry.originalPath,
+            path: destination
+          } satisfies z.infer<typeof RestoreFromTrashOutputSchema>,
+        };
+      }
+      case "empty_trash": {
+        const parsed = EmptyTrashArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for empty_trash: ${parsed.error}`);
+        }
+        let items = parsed.data.ids
+          ? await Promise.all(parsed.data.ids.map(id => findTrashEntry(id)))
+          : await listTrash();
+        if (parsed.data.olderThanDays !== undefined) {
+          const limit = Date.now() - parsed.data.olderThanDays * 24 * 60 * 60 * 1000;
+          items = items.filter(item => new Date(item.deletedAt).getTime() < limit);
+        }
+        if (!parsed.data.dryRun) {
+          await removeFromTrash(items);
+        }
+        const freedBytes = items.reduce((total, item) => total + item.size, 0);
         return {
-          content: [{ type: "text", text: `Successfully moved ${parsed.data.source} to ${parsed.data.destination}` }],
+          content: [{
+            type: "text",
+            text: `${parsed.data.dryRun ? 'Would permanently delete' : 'Permanently deleted'} ${items.length} item(s), ${formatSize(freedBytes)}` +
+              items.map(item => `\n${item.id}  ${item.originalPath}`).join('')
+          }],
+          structuredContent: {
+            dryRun: parsed.data.dryRun,
+            removed: items,
+            freedBytes
+          } satisfies z.infer<typeof EmptyTrashOutputSchema>,
         };
       }
       case "search_files_by_name": {
@@ -1204,9 +6349,25 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`Invalid arguments for search_files_by_name: ${parsed.error}`);
         }
         const validPath = await validatePath(parsed.data.path);
-        const results = await searchFilesByName(validPath, parsed.data.pattern, parsed.data.excludePatterns || []);
+        const results = await searchFilesByName(validPath, parsed.data.pattern, {
+          excludePatterns: parsed.data.excludePatterns,
+          respectIgnoreFiles: parsed.data.respectIgnoreFiles,
+          type: parsed.data.type,
+          maxDepth: parsed.data.maxDepth,
+          maxResults: parsed.data.maxResults
+        });
+        let text = results.matches.length > 0 ? results.matches.join("\n") : "No matches found";
+        if (results.omitted > 0) {
+          text += `\n\n... (${results.omitted} more matches omitted)`;
+        }
         return {
-          content: [{ type: "text", text: results.length > 0 ? results.join("\n") : "No matches found" }],
+          content: [{ type: "text", text }],
+          structuredContent: {
+            path: validPath,
+            pattern: parsed.data.pattern,
+            matches: results.matches,
+            omitted: results.omitted
+          } satisfies z.infer<typeof SearchFilesOutputSchema>,
         };
       }
       case "search_in_files": {
@@ -1217,14 +6378,74 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const validPath = await validatePath(parsed.data.path);
         const result = await searchInFiles(validPath, parsed.data.pattern, {
           caseInsensitive: parsed.data.caseInsensitive,
-          isRegex: parsed.data.isRegex,
+          regexFlavor: parsed.data.regexFlavor ?? (parsed.data.isRegex ? 'extended' : 'fixed'),
+          multiline: parsed.data.multiline,
           includePatterns: parsed.data.includePatterns,
           excludePatterns: parsed.data.excludePatterns,
           maxResults: parsed.data.maxResults,
-          contextLines: parsed.data.contextLines
+          contextLines: parsed.data.contextLines,
+          respectIgnoreFiles: parsed.data.respectIgnoreFiles,
+          outputMode: parsed.data.outputMode
+        });
+        let text = formatSearchResults(result, parsed.data.outputMode);
+        if (result.omitted > 0) {
+          const unit = parsed.data.outputMode === 'content' ? 'matches' : 'files';
+          text += `\n\n... (${result.omitted} more ${unit} omitted, maxResults: ${parsed.data.maxResults})`;
+        }
+        const content = [{ type: "text", text }];
+        if (result.warnings.length > 0) {
+          content.push({ type: "text", text: `Warnings:\n${result.warnings.map(warning => `- ${warning}`).join('\n')}` });
+        }
+        return {
+          content,
+          structuredContent: {
+            path: validPath,
+            pattern: parsed.data.pattern,
+            outputMode: parsed.data.outputMode,
+            files: result.files,
+            totalMatches: result.totalMatches,
+            omitted: result.omitted,
+            warnings: result.warnings
+          } satisfies z.infer<typeof SearchInFilesOutputSchema>,
+        };
+      }
+      case "replace_in_files": {
+        const parsed = ReplaceInFilesArgsSchema.safeParse(args);
+        if (!parsed.success) {
+          throw new Error(`Invalid arguments for replace_in_files: ${parsed.error}`);
+        }
+        const validPath = await validatePath(parsed.data.path);
+        const result = await replaceInFiles(validPath, parsed.data.pattern, parsed.data.replacement, {
+          caseInsensitive: parsed.data.caseInsensitive,
+          regexFlavor: parsed.data.regexFlavor ?? (parsed.data.isRegex ? 'extended' : 'fixed'),
+          multiline: parsed.data.multiline,
+          includePatterns: parsed.data.includePatterns,
+          excludePatterns: parsed.data.excludePatterns,
+          respectIgnoreFiles: parsed.data.respectIgnoreFiles,
+          maxFiles: parsed.data.maxFiles,
+          dryRun: parsed.data.dryRun
         });
+        const summary = result.files.length > 0
+          ? [
+              ...result.files.map(entry => `${entry.file}: ${entry.replacements} ${entry.replacements === 1 ? 'replacement' : 'replacements'}`),
+              `${parsed.data.dryRun ? 'Would replace' : 'Replaced'} ${result.totalReplacements} occurrence(s) in ${result.files.length} file(s).`
+            ].join('\n')
+          : "No matches found.";
+        const content = [{ type: "text", text: result.diff ? `${summary}\n\n${formatDiff(result.diff)}` : summary }];
+        if (result.warnings.length > 0) {
+          content.push({ type: "text", text: `Warnings:\n${result.warnings.map(warning => `- ${warning}`).join('\n')}` });
+        }
         return {
-          content: [{ type: "text", text: result }],
+          content,
+          structuredContent: {
+            path: validPath,
+            pattern: parsed.data.pattern,
+            dryRun: parsed.data.dryRun,
+            files: result.files,
+            totalReplacements: result.totalReplacements,
+            diff: result.diff,
+            warnings: result.warnings
+          } satisfies z.infer<typeof ReplaceInFilesOutputSchema>,
         };
       }
       case "get_file_info": {
@@ -1232,7 +6453,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (!parsed.success) {
           throw new Error(`Invalid arguments for get_file_info: ${parsed.error}`);
         }
-        const validPath = await validatePath(parsed.data.path);
+        // Un lien symbolique est décrit lui-même : seul son emplacement doit être autorisé
+        const validPath = await validateEntryPath(parsed.data.path);
         const info = await getFileStats(validPath);
         return {
           content: [{
@@ -1240,6 +6462,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               .map(([key, value]) => `${key}: ${value}`)
               .join("\n")
           }],
+          structuredContent: {
+            path: validPath,
+            size: info.size,
+            created: info.created.toISOString(),
+            modified: info.modified.toISOString(),
+            accessed: info.accessed.toISOString(),
+            isDirectory: info.isDirectory,
+            isFile: info.isFile,
+            isSymbolicLink: info.isSymbolicLink,
+            linkTarget: info.linkTarget,
+            permissions: info.permissions
+          } satisfies z.infer<typeof GetFileInfoOutputSchema>,
         };
       }
       case "list_allowed_directories": {
@@ -1248,12 +6482,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             type: "text",
             text: `Allowed directories:\n${allowedDirectories.join('\n')}`
           }],
+          structuredContent: {
+            directories: allowedDirectories
+          } satisfies z.infer<typeof ListAllowedDirectoriesOutputSchema>,
         };
       }
       case "list_wsl_distributions": {
+        if (backend.name !== 'wsl') {
+          throw new Error(`WSL distributions are not available with the ${backend.name} backend`);
+        }
         const distributions = await listWslDistributions();
+        const isActiveDistro = (d: WslDistribution) => !!allowedDistro && d.name.toLowerCase() === allowedDistro.toLowerCase();
         const formattedList = distributions.map(d => {
-          const isActive = allowedDistro && d.name.toLowerCase() === allowedDistro.toLowerCase()
+          const isActive = isActiveDistro(d)
             ? " (ACTIVE)"
             : d.name.includes("(Default)") ? " (DEFAULT)" : "";
           return `${d.name}${isActive} - State: ${d.state}, Version: ${d.version}`;
@@ -1264,6 +6505,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             type: "text",
             text: `Available WSL Distributions:\n${formattedList}\n\nCurrently using: ${allowedDistro}`
           }],
+          structuredContent: {
+            distributions: distributions.map(d => ({ ...d, isActive: isActiveDistro(d) })),
+            current: allowedDistro
+          } satisfies z.infer<typeof ListWslDistributionsOutputSchema>,
         };
       }
       default:
@@ -1284,7 +6529,11 @@ async function runServer() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Secure MCP WSL Filesystem Server running on stdio");
-  console.error(`Using WSL distribution: ${allowedDistro}`);
+  if (backend.name === 'wsl') {
+    console.error(`Using WSL distribution: ${allowedDistro}`);
+  } else {
+    console.error(`Using ${backend.label.toLowerCase()} backend`);
+  }
   console.error("Allowed directories:", allowedDirectories);
 }
 
@@ -0,0 +1,91 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { closeSync, constants, openSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { setTimeout as delay } from 'node:timers/promises';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+// Un processus lit-il la FIFO ? Le lecteur reste bloqué dans open() : on cherche son chemin dans
+// les lignes de commande (ouvrir la FIFO pour le vérifier débloquerait ce lecteur)
+const hasReader = fifo => readdirSync('/proc').filter(pid => /^\d+$/.test(pid)).some(pid => {
+  try {
+    return readFileSync(`/proc/${pid}/cmdline`, 'utf-8').split('\0').includes(fifo);
+  } catch {
+    // Processus terminé entre-temps
+    return false;
+  }
+});
+
+describe('helper process', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer({ args: ['--command-timeout=1'] });
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  it('returns large outputs intact', async () => {
+    const path = join(server.root, 'large.txt');
+    const content = Array.from({ length: 200000 }, (_, i) => `line ${i}`).join('\n') + '\n';
+    writeFileSync(path, content);
+    const read = await server.call('read_file', { path });
+    assert.equal(read.content, content);
+  });
+
+  it('kills a command that exceeds the timeout and restarts for the queued requests', async () => {
+    // Lire une FIFO sans écrivain bloque indéfiniment
+    const fifo = join(server.root, 'fifo');
+    execFileSync('mkfifo', [fifo]);
+    writeFileSync(join(server.root, 'after.txt'), 'still working\n');
+
+    const [blocked, queued] = await Promise.all([
+      server.callRaw('read_file', { path: fifo }),
+      server.call('read_file', { path: join(server.root, 'after.txt') })
+    ]);
+    assert.equal(blocked.isError, true);
+    assert.match(blocked.content[0].text, /timed out after 1 s, the helper process was restarted/);
+    assert.equal(queued.content, 'still working\n');
+
+    const listing = await server.call('list_directory', { path: server.root });
+    assert.ok(listing.entries.some(entry => entry.name === 'after.txt'));
+
+    // La commande bloquée est tuée dans la distribution, pas seulement l'agent qui l'a lancée
+    for (let attempt = 0; attempt < 50 && hasReader(fifo); attempt++) {
+      await delay(100);
+    }
+    assert.equal(hasReader(fifo), false);
+  });
+});
+
+describe('concurrent helper processes', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  it('answers other requests while a command is blocked', async () => {
+    const fifo = join(server.root, 'fifo');
+    execFileSync('mkfifo', [fifo]);
+    writeFileSync(join(server.root, 'other.txt'), 'not blocked\n');
+
+    const blocked = server.call('read_file', { path: fifo });
+    while (!hasReader(fifo)) {
+      await delay(50);
+    }
+    const other = await server.call('read_file', { path: join(server.root, 'other.txt') });
+    assert.equal(other.content, 'not blocked\n');
+
+    // Débloquer la lecture : un écrivain qui ferme aussitôt donne une FIFO vide
+    closeSync(openSync(fifo, constants.O_WRONLY | constants.O_NONBLOCK));
+    assert.equal((await blocked).content, '');
+  });
+});
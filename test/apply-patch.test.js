@@ -0,0 +1,103 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, readdirSync, statSync, chmodSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+describe('apply_patch', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  it('applies a hunk at an offset and with fuzz, and reports it', async () => {
+    const dir = server.directory('fuzz');
+    writeFileSync(join(dir, 'file.txt'), 'a\nb\nc\nd\ne\n');
+    // Première ligne de contexte erronée, position annoncée décalée de 3 lignes
+    const patch = '--- a/file.txt\n+++ b/file.txt\n@@ -5,3 +5,3 @@\n wrong\n-c\n+C\n d\n';
+
+    const strict = await server.callRaw('apply_patch', { patch, path: dir, fuzz: 0 });
+    assert.equal(strict.isError, true);
+    assert.equal(readFileSync(join(dir, 'file.txt'), 'utf-8'), 'a\nb\nc\nd\ne\n');
+
+    const result = await server.call('apply_patch', { patch, path: dir });
+    assert.deepEqual(result.files[0].hunks.map(({ applied, line, offset, fuzz }) => ({ applied, line, offset, fuzz })), [
+      { applied: true, line: 2, offset: -3, fuzz: 1 }
+    ]);
+    assert.equal(readFileSync(join(dir, 'file.txt'), 'utf-8'), 'a\nb\nC\nd\ne\n');
+  });
+
+  it('creates, deletes and renames files', async () => {
+    const dir = server.directory('operations');
+    writeFileSync(join(dir, 'doomed.txt'), 'bye\n');
+    writeFileSync(join(dir, 'old-name.txt'), 'keep\nold\n');
+    chmodSync(join(dir, 'old-name.txt'), 0o640);
+    const patch = [
+      '--- /dev/null\n+++ b/sub/created.txt\n@@ -0,0 +1,2 @@\n+hello\n+world\n',
+      '--- a/doomed.txt\n+++ /dev/null\n@@ -1 +0,0 @@\n-bye\n',
+      'diff --git a/old-name.txt b/new-name.txt\nsimilarity index 50%\nrename from old-name.txt\nrename to new-name.txt\n' +
+      '--- a/old-name.txt\n+++ b/new-name.txt\n@@ -1,2 +1,2 @@\n keep\n-old\n+new\n'
+    ].join('');
+
+    const result = await server.call('apply_patch', { patch, path: dir });
+    assert.deepEqual(result.files.map(file => [file.operation, file.path]), [
+      ['create', join(dir, 'sub/created.txt')],
+      ['delete', join(dir, 'doomed.txt')],
+      ['rename', join(dir, 'new-name.txt')]
+    ]);
+    assert.equal(readFileSync(join(dir, 'sub/created.txt'), 'utf-8'), 'hello\nworld\n');
+    assert.equal(existsSync(join(dir, 'doomed.txt')), false);
+    assert.equal(existsSync(join(dir, 'old-name.txt')), false);
+    assert.equal(readFileSync(join(dir, 'new-name.txt'), 'utf-8'), 'keep\nnew\n');
+    assert.equal(statSync(join(dir, 'new-name.txt')).mode & 0o777, 0o640);
+    assert.deepEqual(readdirSync(dir).filter(name => name.startsWith('.wsl_')), []);
+  });
+
+  it('reports the hunk that fails and writes nothing when one file does not apply', async () => {
+    const dir = server.directory('all-or-nothing');
+    writeFileSync(join(dir, 'good.txt'), 'one\ntwo\n');
+    writeFileSync(join(dir, 'bad.txt'), 'three\nfour\n');
+    const patch =
+      '--- a/good.txt\n+++ b/good.txt\n@@ -1,2 +1,2 @@\n one\n-two\n+TWO\n' +
+      '--- a/bad.txt\n+++ b/bad.txt\n@@ -1,2 +1,2 @@\n three\n-four\n+FOUR\n@@ -10,2 +10,2 @@\n missing\n-line\n+LINE\n';
+
+    const result = await server.callRaw('apply_patch', { patch, path: dir });
+    assert.equal(result.isError, true);
+    const files = result.structuredContent.files;
+    assert.equal(result.structuredContent.applied, false);
+    assert.deepEqual(files[0].hunks.map(hunk => hunk.applied), [true]);
+    assert.deepEqual(files[1].hunks.map(hunk => hunk.applied), [true, false]);
+    assert.equal(typeof files[1].hunks[1].error, 'string');
+    assert.match(result.content[0].text, /no file was written/);
+
+    assert.equal(readFileSync(join(dir, 'good.txt'), 'utf-8'), 'one\ntwo\n');
+    assert.equal(readFileSync(join(dir, 'bad.txt'), 'utf-8'), 'three\nfour\n');
+  });
+
+  it('previews without writing in dry-run mode', async () => {
+    const dir = server.directory('dry-run');
+    writeFileSync(join(dir, 'file.txt'), 'before\n');
+    const patch = '--- a/file.txt\n+++ b/file.txt\n@@ -1 +1 @@\n-before\n+after\n--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+new\n';
+
+    const result = await server.call('apply_patch', { patch, path: dir, dryRun: true });
+    assert.equal(result.dryRun, true);
+    assert.equal(result.applied, true);
+    assert.match(result.diff, /\+after/);
+    assert.equal(readFileSync(join(dir, 'file.txt'), 'utf-8'), 'before\n');
+    assert.equal(existsSync(join(dir, 'new.txt')), false);
+  });
+
+  it('refuses to create a file that already exists', async () => {
+    const dir = server.directory('existing');
+    writeFileSync(join(dir, 'file.txt'), 'already here\n');
+    const result = await server.callRaw('apply_patch', { patch: '--- /dev/null\n+++ b/file.txt\n@@ -0,0 +1 @@\n+new\n', path: dir });
+    assert.equal(result.isError, true);
+    assert.equal(result.structuredContent.files[0].error, 'file already exists');
+    assert.equal(readFileSync(join(dir, 'file.txt'), 'utf-8'), 'already here\n');
+  });
+});
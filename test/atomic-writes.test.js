@@ -0,0 +1,65 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, linkSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+describe('all-or-nothing writes of several files', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  it('restores the files already in place when a later write fails', async () => {
+    const dir = server.directory('rollback');
+    const renamed = join(dir, 'renamed.txt');
+    writeFileSync(renamed, 'first\n');
+    chmodSync(renamed, 0o640);
+    const before = statSync(renamed);
+    // Deux liens physiques du même fichier : écrire le premier change le contenu du second,
+    // dont la vérification de hash échoue alors que les deux premières écritures sont déjà en place
+    const linked = join(dir, 'linked.txt');
+    const otherLink = join(dir, 'other-link.txt');
+    writeFileSync(linked, 'shared\n');
+    linkSync(linked, otherLink);
+
+    await assert.rejects(
+      server.call('edit_files', {
+        files: [
+          { path: renamed, edits: [{ oldText: 'first', newText: 'changed' }] },
+          { path: linked, edits: [{ oldText: 'shared', newText: 'from linked' }] },
+          { path: otherLink, edits: [{ oldText: 'shared', newText: 'from other link' }] }
+        ]
+      }),
+      /2 already written file\(s\) restored.*Conflict/s
+    );
+
+    assert.equal(readFileSync(renamed, 'utf-8'), 'first\n');
+    const after = statSync(renamed);
+    assert.equal(after.mode, before.mode);
+    assert.equal(after.uid, before.uid);
+    assert.equal(after.gid, before.gid);
+    assert.equal(readFileSync(linked, 'utf-8'), 'shared\n');
+    assert.equal(statSync(linked).ino, statSync(otherLink).ino);
+    assert.deepEqual(readdirSync(dir).sort(), ['linked.txt', 'other-link.txt', 'renamed.txt']);
+  });
+
+  it('writes nothing and leaves no temporary file when a write cannot be prepared', async () => {
+    const dir = server.directory('staging');
+    writeFileSync(join(dir, 'a.txt'), 'a\n');
+    await assert.rejects(
+      server.call('apply_patch', {
+        path: dir,
+        // Le second fichier serait créé sous un fichier ordinaire : son répertoire ne peut pas être créé
+        patch: '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-a\n+A\n--- /dev/null\n+++ b/a.txt/new.txt\n@@ -0,0 +1 @@\n+new\n'
+      })
+    );
+    assert.equal(readFileSync(join(dir, 'a.txt'), 'utf-8'), 'a\n');
+    assert.deepEqual(readdirSync(dir), ['a.txt']);
+  });
+});
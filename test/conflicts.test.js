@@ -0,0 +1,77 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+describe('writes with a stale expectedHash', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  // Lit le fichier par le serveur (qui garde son contenu en cache), puis le modifie sur le disque
+  // comme le ferait un éditeur ; renvoie le hash devenu périmé
+  const readThenChange = async path => {
+    writeFileSync(path, 'first\nread by the server\n');
+    const { hash } = await server.call('read_file', { path });
+    writeFileSync(path, 'first\nchanged underneath\n');
+    return hash;
+  };
+
+  // Le message de conflit contient le diff entre le contenu lu et le contenu actuel
+  const CONFLICT = /Conflict: .* has changed since it was read.*Changes made since it was read:.*-read by the server.*\+changed underneath/s;
+
+  it('write_file', async () => {
+    const path = join(server.directory('write-file'), 'file.txt');
+    const expectedHash = await readThenChange(path);
+
+    await assert.rejects(server.call('write_file', { path, content: 'replacement\n', expectedHash }), CONFLICT);
+    assert.equal(readFileSync(path, 'utf-8'), 'first\nchanged underneath\n');
+  });
+
+  it('edit_file', async () => {
+    const path = join(server.directory('edit-file'), 'file.txt');
+    const expectedHash = await readThenChange(path);
+
+    await assert.rejects(server.call('edit_file', { path, edits: [{ oldText: 'first', newText: 'edited' }], expectedHash }), CONFLICT);
+    assert.equal(readFileSync(path, 'utf-8'), 'first\nchanged underneath\n');
+  });
+
+  it('edit_files, leaving the other files of the transaction untouched', async () => {
+    const dir = server.directory('edit-files');
+    const fresh = join(dir, 'fresh.txt');
+    writeFileSync(fresh, 'first\n');
+    const { hash: freshHash } = await server.call('read_file', { path: fresh });
+    const stale = join(dir, 'stale.txt');
+    const staleHash = await readThenChange(stale);
+
+    await assert.rejects(
+      server.call('edit_files', {
+        files: [
+          { path: fresh, edits: [{ oldText: 'first', newText: 'edited' }], expectedHash: freshHash },
+          { path: stale, edits: [{ oldText: 'first', newText: 'edited' }], expectedHash: staleHash }
+        ]
+      }),
+      CONFLICT
+    );
+    assert.equal(readFileSync(fresh, 'utf-8'), 'first\n');
+    assert.equal(readFileSync(stale, 'utf-8'), 'first\nchanged underneath\n');
+  });
+
+  it('says the previous content is unknown when the hash was never read', async () => {
+    const path = join(server.directory('unknown'), 'file.txt');
+    writeFileSync(path, 'content\n');
+
+    await assert.rejects(
+      server.call('write_file', { path, content: 'replacement\n', expectedHash: '0'.repeat(64) }),
+      /Conflict: .*Its previous content is unknown to the server/s
+    );
+    assert.equal(readFileSync(path, 'utf-8'), 'content\n');
+  });
+});
@@ -0,0 +1,98 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { startServer } from './helpers.js';
+
+// Noms qu'une locale classerait autrement que l'ordre des octets (majuscules, "_", ponctuation, accents)
+const FILES = {
+  '.gitignore': 'a.b\n',
+  'B/file': 'b',
+  '_x': 'x',
+  'a/child': 'child',
+  'a/sub/deep.txt': 'deep',
+  'a-b': 'ab',
+  'a.b': 'a.b',
+  'é': 'e'
+};
+
+describe('directory_tree', () => {
+  let server;
+  let dir;
+
+  before(async () => {
+    server = await startServer();
+    dir = server.directory('tree');
+    for (const [file, content] of Object.entries(FILES)) {
+      mkdirSync(dirname(join(dir, file)), { recursive: true });
+      writeFileSync(join(dir, file), content);
+    }
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  // Arbre réduit aux noms, pour comparer la forme et l'ordre
+  const shape = entries => entries.map(entry => entry.children ? { [entry.name]: shape(entry.children) } : entry.name);
+
+  it('lists parents before children, in byte order, and everything by default', async () => {
+    const result = await server.call('directory_tree', { path: dir });
+    assert.deepEqual(shape(result.tree), [
+      '.gitignore',
+      { B: ['file'] },
+      '_x',
+      { a: ['child', { sub: ['deep.txt'] }] },
+      'a-b',
+      'a.b',
+      'é'
+    ]);
+    assert.equal(result.totalEntries, 11);
+    assert.equal(result.omittedEntries, 0);
+  });
+
+  it('leaves out ignored entries with respectGitignore', async () => {
+    const result = await server.call('directory_tree', { path: dir, respectGitignore: true, maxDepth: 1 });
+    assert.deepEqual(result.tree.map(entry => entry.name), ['.gitignore', 'B', '_x', 'a', 'a-b', 'é']);
+  });
+
+  it('stops at maxDepth, without children arrays at the limit', async () => {
+    const result = await server.call('directory_tree', { path: dir, maxDepth: 2 });
+    const a = result.tree.find(entry => entry.name === 'a');
+    assert.deepEqual(a.children.map(entry => entry.name), ['child', 'sub']);
+    assert.equal(a.children[1].type, 'directory');
+    assert.equal('children' in a.children[1], false);
+
+    const shallow = await server.call('directory_tree', { path: dir, maxDepth: 1 });
+    assert.ok(shallow.tree.every(entry => !('children' in entry)));
+  });
+
+  it('keeps the shallowest entries and counts the omitted ones', async () => {
+    const result = await server.callRaw('directory_tree', { path: dir, maxEntries: 8 });
+    const { tree, totalEntries, omittedEntries } = result.structuredContent;
+    assert.deepEqual(shape(tree), ['.gitignore', { B: ['file'] }, '_x', { a: [] }, 'a-b', 'a.b', 'é']);
+    assert.equal(tree.find(entry => entry.name === 'a').omittedEntries, 2);
+    assert.equal(totalEntries, 11);
+    assert.equal(omittedEntries, 3);
+    assert.match(result.content[0].text, /\[Truncated: 3 of 11 entries omitted \(maxEntries: 8\)\]$/);
+  });
+
+  it('renders an ASCII tree', async () => {
+    const result = await server.callRaw('directory_tree', { path: dir, format: 'ascii', maxEntries: 9 });
+    assert.equal(result.content[0].text, [
+      `${dir}/`,
+      '├── .gitignore',
+      '├── B/',
+      '│   └── file',
+      '├── _x',
+      '├── a/',
+      '│   ├── child',
+      '│   └── … 1 more entry',
+      '├── a-b',
+      '├── a.b',
+      '└── é',
+      '',
+      '[Truncated: 2 of 11 entries omitted (maxEntries: 9)]'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+describe('edit_file re-indentation of whitespace-insensitive matches', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  // Écrit le fichier, applique une modification et renvoie le contenu obtenu
+  const editFile = async (name, content, oldText, newText) => {
+    const path = join(server.root, name);
+    writeFileSync(path, content);
+    const result = await server.call('edit_file', { path, edits: [{ oldText, newText }] });
+    assert.equal(result.fuzzyEdits.length, 1);
+    return readFileSync(path, 'utf-8');
+  };
+
+  it('keeps tab-indented Makefile recipes indented with tabs', async () => {
+    const content = await editFile(
+      'Makefile',
+      'all: app\n\napp: main.c\n\tgcc -o app main.c\n',
+      'app: main.c\n    gcc -o app main.c',
+      'app: main.c util.c\n    gcc -o app main.c util.c\n    strip app'
+    );
+    assert.equal(content, 'all: app\n\napp: main.c util.c\n\tgcc -o app main.c util.c\n\tstrip app\n');
+  });
+
+  it('converts nested levels to tabs in a tab-indented file', async () => {
+    const content = await editFile(
+      'main.go',
+      'func main() {\n\tif ok {\n\t\trun()\n\t}\n}\n',
+      '  if ok {\n    run()\n  }',
+      '  if ok {\n    run()\n    if verbose {\n      log()\n    }\n  }'
+    );
+    assert.equal(content, 'func main() {\n\tif ok {\n\t\trun()\n\t\tif verbose {\n\t\t\tlog()\n\t\t}\n\t}\n}\n');
+  });
+
+  it('converts tab levels to spaces in a space-indented file', async () => {
+    const content = await editFile(
+      'app.py',
+      'class App:\n    def run(self):\n        start()\n',
+      '\tdef run(self):\n\t\tstart()',
+      '\tdef run(self):\n\t\tif ready:\n\t\t\tstart()'
+    );
+    assert.equal(content, 'class App:\n    def run(self):\n        if ready:\n            start()\n');
+  });
+
+  it('keeps the style of a space-indented block in a mostly tab-indented file', async () => {
+    const content = await editFile(
+      'mixed.py',
+      'def a():\n\tif x:\n\t\treturn 1\n\treturn 2\n\ndef b():\n\tpass\n\ndef c():\n    if y:\n        return 3\n    return 4\n',
+      '  if y:\n    return 3',
+      '  if y:\n    if z:\n      return 5\n    return 3'
+    );
+    assert.equal(content, 'def a():\n\tif x:\n\t\treturn 1\n\treturn 2\n\ndef b():\n\tpass\n\ndef c():\n    if y:\n        if z:\n            return 5\n        return 3\n    return 4\n');
+  });
+
+  it('keeps alignment spaces after tabs', async () => {
+    const content = await editFile(
+      'align.c',
+      'int f() {\n\tcall(first,\n\t     second);\n}\n',
+      '    call(first,\n         second);',
+      '    call(first,\n         second,\n         third);'
+    );
+    assert.equal(content, 'int f() {\n\tcall(first,\n\t     second,\n\t     third);\n}\n');
+  });
+
+  it('keeps the exact indentation of lines copied from oldText', async () => {
+    const content = await editFile(
+      'odd.js',
+      'if (a) {\n   legacy();\n  other();\n}\n',
+      'legacy();\nother();',
+      'legacy();\nother();\nadded();'
+    );
+    assert.equal(content, 'if (a) {\n   legacy();\n  other();\n   added();\n}\n');
+  });
+});
@@ -0,0 +1,64 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+// "value = 1" aux lignes 2, 5 et 8
+const CONTENT = 'first:\nvalue = 1\n\nsecond:\nvalue = 1\n\nthird:\nvalue = 1\n';
+
+describe('edit_file with several matches', () => {
+  let server;
+  let testIndex = 0;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  // Écrit un fichier neuf, le modifie avec une seule opération et renvoie l'erreur éventuelle et le contenu obtenu
+  const edit = async (options, content = CONTENT) => {
+    const path = join(server.root, `file-${++testIndex}.txt`);
+    writeFileSync(path, content);
+    const error = await server.call('edit_file', { path, edits: [{ oldText: 'value = 1', newText: 'value = 2', ...options }] })
+      .then(() => null, error => error.message);
+    return { error, content: readFileSync(path, 'utf-8') };
+  };
+
+  it('refuses an ambiguous oldText and lists the candidates', async () => {
+    const { error, content } = await edit({});
+    assert.match(error, /oldText is ambiguous, it matches 3 locations at lines 2, 5, 8\. .*occurrence, startLine or replaceAll/);
+    assert.equal(content, CONTENT);
+  });
+
+  it('replaces the Nth match with occurrence', async () => {
+    assert.equal((await edit({ occurrence: 2 })).content, CONTENT.replace('second:\nvalue = 1', 'second:\nvalue = 2'));
+    assert.equal((await edit({ occurrence: 3 })).content, CONTENT.replace('third:\nvalue = 1', 'third:\nvalue = 2'));
+  });
+
+  it('reports a missing occurrence with the matches found', async () => {
+    const { error, content } = await edit({ occurrence: 4 });
+    assert.match(error, /Could not find occurrence 4 .*\(only 3 found, at lines 2, 5, 8\)/);
+    assert.equal(content, CONTENT);
+  });
+
+  it('replaces the match closest to startLine', async () => {
+    assert.equal((await edit({ startLine: 1 })).content, CONTENT.replace('first:\nvalue = 1', 'first:\nvalue = 2'));
+    assert.equal((await edit({ startLine: 6 })).content, CONTENT.replace('second:\nvalue = 1', 'second:\nvalue = 2'));
+    assert.equal((await edit({ startLine: 100 })).content, CONTENT.replace('third:\nvalue = 1', 'third:\nvalue = 2'));
+  });
+
+  it('refuses a startLine equally close to two matches', async () => {
+    const twice = 'a\nvalue = 1\nb\nvalue = 1\n';
+    const { error, content } = await edit({ startLine: 3 }, twice);
+    assert.match(error, /oldText matches at 2 and 4, equally close to startLine 3\. Use occurrence/);
+    assert.equal(content, twice);
+  });
+
+  it('replaces every match with replaceAll', async () => {
+    assert.equal((await edit({ replaceAll: true })).content, CONTENT.replaceAll('value = 1', 'value = 2'));
+  });
+});
@@ -0,0 +1,60 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFileSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { startServer } from './helpers.js';
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'encodings');
+// Texte commun aux fixtures UTF-16 et windows-1252
+const TEXT = 'Café – 10 €\nNaïve “quotes”\n';
+
+describe('text encodings', () => {
+  let server;
+  let dir;
+
+  before(async () => {
+    server = await startServer();
+    dir = server.directory('encodings');
+    for (const name of ['utf-16le.txt', 'utf-16be.txt', 'windows-1252.txt', 'binary.dat']) {
+      copyFileSync(join(fixtures, name), join(dir, name));
+    }
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  for (const charset of ['utf-16le', 'utf-16be', 'windows-1252']) {
+    it(`decodes ${charset} files`, async () => {
+      const path = join(dir, `${charset}.txt`);
+      const read = await server.call('read_file', { path });
+      assert.equal(read.charset, charset);
+      assert.equal(read.encoding, 'utf-8');
+      assert.equal(read.content, TEXT);
+
+      const multiple = await server.call('read_multiple_files', { paths: [path] });
+      assert.equal(multiple.files[0].charset, charset);
+      assert.equal(multiple.files[0].content, TEXT);
+    });
+  }
+
+  it('returns other binary content as base64', async () => {
+    const path = join(dir, 'binary.dat');
+    const read = await server.call('read_file', { path });
+    assert.equal(read.encoding, 'base64');
+    assert.equal(read.charset, undefined);
+    assert.deepEqual(Buffer.from(read.content, 'base64'), readFileSync(path));
+  });
+
+  it('refuses to edit a file that is not UTF-8', async () => {
+    for (const [name, charset] of [['windows-1252.txt', 'windows-1252'], ['utf-16le.txt', 'utf-16le']]) {
+      const path = join(dir, name);
+      await assert.rejects(
+        server.call('edit_file', { path, edits: [{ oldText: 'quotes', newText: 'guillemets' }] }),
+        new RegExp(`is not UTF-8 text \\(decoded from ${charset} when read\\); edit_file only edits UTF-8 files`)
+      );
+      assert.deepEqual(readFileSync(path), readFileSync(join(fixtures, name)));
+    }
+  });
+});
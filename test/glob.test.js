@@ -0,0 +1,82 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { startServer } from './helpers.js';
+
+const FILES = [
+  'file1.ts',
+  'file2.ts',
+  'file10.ts',
+  'readme.md',
+  'notes/todo.txt',
+  'src/a.ts',
+  'src/lib/b.ts',
+  'src/lib/deep/c.ts',
+  'test/a.test.ts'
+];
+
+describe('search_files_by_name glob patterns', () => {
+  let server;
+  let dir;
+
+  before(async () => {
+    server = await startServer();
+    dir = server.directory('tree');
+    for (const file of FILES) {
+      mkdirSync(dirname(join(dir, file)), { recursive: true });
+      writeFileSync(join(dir, file), '');
+    }
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  // Chemins relatifs des entrées trouvées, dans l'ordre renvoyé
+  const find = async (pattern, type = 'file') => {
+    const result = await server.call('search_files_by_name', { path: dir, pattern, type });
+    return result.matches.map(match => relative(dir, match));
+  };
+
+  it('** at the start matches any number of directories, including none', async () => {
+    assert.deepEqual(await find('**/*.ts'), ['file1.ts', 'file10.ts', 'file2.ts', 'src/a.ts', 'src/lib/b.ts', 'src/lib/deep/c.ts', 'test/a.test.ts']);
+  });
+
+  it('** in the middle matches zero or more directories', async () => {
+    assert.deepEqual(await find('src/**/c.ts'), ['src/lib/deep/c.ts']);
+    assert.deepEqual(await find('src/**/a.ts'), ['src/a.ts']);
+  });
+
+  it('** at the end matches everything below', async () => {
+    assert.deepEqual(await find('src/**', 'any'), ['src/a.ts', 'src/lib', 'src/lib/b.ts', 'src/lib/deep', 'src/lib/deep/c.ts']);
+  });
+
+  it('* does not cross directory separators', async () => {
+    assert.deepEqual(await find('src/*.ts'), ['src/a.ts']);
+    assert.deepEqual(await find('src/*'), ['src/a.ts']);
+    assert.deepEqual(await find('*/a.ts'), ['src/a.ts']);
+  });
+
+  it('? matches exactly one character', async () => {
+    assert.deepEqual(await find('file?.ts'), ['file1.ts', 'file2.ts']);
+    assert.deepEqual(await find('file??.ts'), ['file10.ts']);
+  });
+
+  it('bracket classes, ranges and negation', async () => {
+    assert.deepEqual(await find('[bc].ts'), ['src/lib/b.ts', 'src/lib/deep/c.ts']);
+    assert.deepEqual(await find('file[0-1]*.ts'), ['file1.ts', 'file10.ts']);
+    assert.deepEqual(await find('[!f]*.ts'), ['src/a.ts', 'src/lib/b.ts', 'src/lib/deep/c.ts', 'test/a.test.ts']);
+  });
+
+  it('a pattern without a slash matches names at any depth', async () => {
+    assert.deepEqual(await find('a.*'), ['src/a.ts', 'test/a.test.ts']);
+  });
+
+  it('treats a bare name as *name*, case-insensitively', async () => {
+    assert.deepEqual(await find('lib', 'any'), ['src/lib']);
+    assert.deepEqual(await find('todo'), ['notes/todo.txt']);
+    assert.deepEqual(await find('README'), ['readme.md']);
+    assert.deepEqual(await find('test', 'any'), ['test', 'test/a.test.ts']);
+  });
+});
@@ -0,0 +1,58 @@
+import { mkdirSync } from 'node:fs';
+import { mkdir, mkdtemp, realpath, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const serverPath = join(dirname(fileURLToPath(import.meta.url)), '..', 'dist', 'index.js');
+
+/**
+ * Démarre le serveur compilé (dist/index.js) avec le backend local, sur un répertoire autorisé
+ * et une corbeille temporaires, et renvoie un client MCP connecté. args complète les options du serveur.
+ */
+export async function startServer({ args = [] } = {}) {
+  const base = await realpath(await mkdtemp(join(tmpdir(), 'mcp-wsl-filesystem-test-')));
+  const root = join(base, 'allowed');
+  await mkdir(root);
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [serverPath, '--backend=local', `--trash-dir=${join(base, 'trash')}`, ...args, root],
+    stderr: 'ignore'
+  });
+  const client = new Client({ name: 'mcp-wsl-filesystem-test', version: '1.0.0' });
+  await client.connect(transport);
+  // La liste des outils met leurs outputSchema en cache : le client valide ensuite le structuredContent
+  // de chaque appel et lève une erreur s'il ne correspond pas au schéma annoncé
+  const { tools } = await client.listTools();
+
+  return {
+    // Répertoire autorisé, vide au démarrage
+    root,
+    // Outils annoncés par le serveur
+    tools,
+    // Vrai si le client a pu compiler l'outputSchema de l'outil (sinon il ne valide pas ses résultats)
+    validatesOutput: name => client.getToolOutputValidator(name) !== undefined,
+    // Sous-répertoire neuf du répertoire autorisé, créé directement sur le disque
+    directory(name) {
+      const path = join(root, name);
+      mkdirSync(path, { recursive: true });
+      return path;
+    },
+    // Appel d'outil renvoyant le résultat complet (isError, content, structuredContent)
+    callRaw: (name, args = {}) => client.callTool({ name, arguments: args }),
+    // Appel d'outil renvoyant structuredContent, ou levant l'erreur signalée par l'outil
+    async call(name, args = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      if (result.isError) {
+        throw new Error(result.content.map(item => item.text).join('\n'));
+      }
+      return result.structuredContent;
+    },
+    async close() {
+      await client.close();
+      await rm(base, { recursive: true, force: true });
+    }
+  };
+}
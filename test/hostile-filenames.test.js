@@ -0,0 +1,230 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, lstatSync, mkdirSync, readFileSync, readdirSync, readlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+// Noms qu'un shell interpréterait : guillemets, substitutions, sauts de ligne, options, métacaractères
+// (pas de barre oblique inverse : le serveur la traite comme un séparateur de chemin Windows)
+const HOSTILE_NAMES = [
+  `it's "quoted"`,
+  '$(touch pwned)',
+  '`touch pwned`',
+  'line\nbreak',
+  'tab\there',
+  '-rf',
+  '--help',
+  'semi;colon & pipe | <redirect> *?[glob]',
+  ' leading and trailing spaces ',
+  'ünïcødé 日本'
+];
+
+describe('hostile file names', () => {
+  let server;
+  let testIndex = 0;
+  // Répertoire neuf pour chaque test, créé directement sur le disque
+  const freshDirectory = () => {
+    const dir = join(server.root, `case-${++testIndex}`);
+    mkdirSync(dir);
+    return dir;
+  };
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  // Chaque appel de la suite est validé par le client contre l'outputSchema de l'outil ; encore faut-il
+  // que tous les schémas soient annoncés et compilables, sans quoi la validation est silencieusement omise
+  it('announces a usable output schema for every tool', () => {
+    assert.ok(server.tools.length > 0);
+    for (const tool of server.tools) {
+      assert.ok(tool.outputSchema, `${tool.name} has no output schema`);
+      assert.ok(server.validatesOutput(tool.name), `the output schema of ${tool.name} does not compile`);
+    }
+  });
+
+  it('write_file, read_file and get_file_info', async () => {
+    const dir = freshDirectory();
+    for (const name of HOSTILE_NAMES) {
+      const path = join(dir, name);
+      await server.call('write_file', { path, content: `content of ${name}\n` });
+      assert.equal(readFileSync(path, 'utf-8'), `content of ${name}\n`);
+
+      const read = await server.call('read_file', { path });
+      assert.equal(read.content, `content of ${name}\n`);
+      const tail = await server.call('read_file', { path, tail: 1 });
+      assert.equal(tail.content, `content of ${name}\n`.split('\n').slice(-2).join('\n'));
+
+      const info = await server.call('get_file_info', { path });
+      assert.equal(info.isFile, true);
+      assert.equal(info.size, Buffer.byteLength(`content of ${name}\n`));
+    }
+  });
+
+  it('read_media_file, read_file_by_parts, get_file_parts_info and read_multiple_files', async () => {
+    const dir = freshDirectory();
+    const paths = HOSTILE_NAMES.map(name => join(dir, name));
+    paths.forEach((path, i) => writeFileSync(path, `file ${i}\n`));
+
+    for (const [i, path] of paths.entries()) {
+      const media = await server.call('read_media_file', { path });
+      assert.equal(media.size, `file ${i}\n`.length);
+      const part = await server.call('read_file_by_parts', { path, part_number: 1 });
+      assert.equal(part.content, `file ${i}\n`);
+      const info = await server.call('get_file_parts_info', { path });
+      assert.equal(info.totalBytes, `file ${i}\n`.length);
+    }
+
+    const multiple = await server.call('read_multiple_files', { paths });
+    assert.deepEqual(multiple.files.map(file => file.content), paths.map((_, i) => `file ${i}\n`));
+  });
+
+  it('edit_file and edit_files', async () => {
+    const dir = freshDirectory();
+    const paths = HOSTILE_NAMES.map(name => join(dir, name));
+    paths.forEach(path => writeFileSync(path, 'alpha\nbeta\n'));
+
+    for (const path of paths) {
+      await server.call('edit_file', { path, edits: [{ oldText: 'alpha', newText: 'gamma' }] });
+    }
+    await server.call('edit_files', { files: paths.map(path => ({ path, edits: [{ oldText: 'beta', newText: 'delta' }] })) });
+    for (const path of paths) {
+      assert.equal(readFileSync(path, 'utf-8'), 'gamma\ndelta\n');
+    }
+  });
+
+  it('apply_patch', async () => {
+    const dir = freshDirectory();
+    const patch = HOSTILE_NAMES.map(name => {
+      writeFileSync(join(dir, name), 'old\n');
+      // Chemins entre guillemets, comme git les écrit quand ils contiennent des caractères spéciaux
+      return `--- ${JSON.stringify(`a/${name}`)}\n+++ ${JSON.stringify(`b/${name}`)}\n@@ -1 +1 @@\n-old\n+new\n`;
+    }).join('');
+
+    const result = await server.call('apply_patch', { patch, path: dir });
+    assert.equal(result.applied, true);
+    for (const name of HOSTILE_NAMES) {
+      assert.equal(readFileSync(join(dir, name), 'utf-8'), 'new\n');
+    }
+  });
+
+  it('create_directory, list_directory, list_directory_with_sizes and directory_tree', async () => {
+    const dir = freshDirectory();
+    for (const name of HOSTILE_NAMES) {
+      await server.call('create_directory', { path: join(dir, name) });
+      await server.call('create_directory', { path: join(dir, name, 'child') });
+      assert.ok(lstatSync(join(dir, name, 'child')).isDirectory());
+    }
+
+    const listing = await server.call('list_directory', { path: dir });
+    assert.deepEqual(listing.entries.map(entry => entry.name).sort(), [...HOSTILE_NAMES].sort());
+    const withSizes = await server.call('list_directory_with_sizes', { path: dir });
+    assert.equal(withSizes.totalDirectories, HOSTILE_NAMES.length);
+    const tree = await server.call('directory_tree', { path: dir });
+    assert.deepEqual(tree.tree.map(entry => entry.name).sort(), [...HOSTILE_NAMES].sort());
+    assert.ok(tree.tree.every(entry => entry.children?.[0]?.name === 'child'));
+  });
+
+  it('move_file, copy_file and copy_directory', async () => {
+    const dir = freshDirectory();
+    for (const name of HOSTILE_NAMES) {
+      writeFileSync(join(dir, name), name);
+      await server.call('move_file', { source: join(dir, name), destination: join(dir, `${name}.moved`) });
+      await server.call('copy_file', { source: join(dir, `${name}.moved`), destination: join(dir, `${name}.copy`) });
+      assert.equal(existsSync(join(dir, name)), false);
+      assert.equal(readFileSync(join(dir, `${name}.copy`), 'utf-8'), name);
+
+      mkdirSync(join(dir, `${name}.dir`));
+      writeFileSync(join(dir, `${name}.dir`, name), name);
+      await server.call('copy_directory', { source: join(dir, `${name}.dir`), destination: join(dir, `${name}.dir-copy`) });
+      assert.equal(readFileSync(join(dir, `${name}.dir-copy`, name), 'utf-8'), name);
+    }
+  });
+
+  it('create_symlink, create_hardlink and read_link', async () => {
+    const dir = freshDirectory();
+    for (const name of HOSTILE_NAMES) {
+      writeFileSync(join(dir, name), name);
+      await server.call('create_symlink', { path: join(dir, `${name}.symlink`), target: join(dir, name) });
+      assert.equal(readlinkSync(join(dir, `${name}.symlink`)), join(dir, name));
+      const link = await server.call('read_link', { path: join(dir, `${name}.symlink`) });
+      assert.equal(link.target, join(dir, name));
+      assert.equal(link.targetExists, true);
+
+      await server.call('create_hardlink', { path: join(dir, `${name}.hardlink`), target: join(dir, name) });
+      assert.equal(lstatSync(join(dir, `${name}.hardlink`)).ino, lstatSync(join(dir, name)).ino);
+    }
+  });
+
+  it('delete_file, delete_directory, list_trash, restore_from_trash and empty_trash', async () => {
+    const dir = freshDirectory();
+    for (const name of HOSTILE_NAMES) {
+      writeFileSync(join(dir, name), name);
+      const deleted = await server.call('delete_file', { path: join(dir, name) });
+      assert.equal(existsSync(join(dir, name)), false);
+
+      const trash = await server.call('list_trash', { path: dir });
+      assert.ok(trash.items.some(item => item.id === deleted.trashId && item.originalPath === join(dir, name)));
+      await server.call('restore_from_trash', { id: deleted.trashId });
+      assert.equal(readFileSync(join(dir, name), 'utf-8'), name);
+
+      mkdirSync(join(dir, `${name}.dir`));
+      writeFileSync(join(dir, `${name}.dir`, name), name);
+      const deletedDirectory = await server.call('delete_directory', { path: join(dir, `${name}.dir`), recursive: true });
+      assert.equal(existsSync(join(dir, `${name}.dir`)), false);
+      const emptied = await server.call('empty_trash', { ids: [deletedDirectory.trashId] });
+      assert.deepEqual(emptied.removed.map(item => item.originalPath), [join(dir, `${name}.dir`)]);
+    }
+  });
+
+  it('search_files_by_name, search_in_files and replace_in_files', async () => {
+    const dir = freshDirectory();
+    const paths = HOSTILE_NAMES.map(name => join(dir, name));
+    paths.forEach(path => writeFileSync(path, 'first line\nneedle\n'));
+
+    const byName = await server.call('search_files_by_name', { path: dir, pattern: '*' });
+    assert.deepEqual([...byName.matches].sort(), [...paths].sort());
+
+    const content = await server.call('search_in_files', { path: dir, pattern: 'needle' });
+    assert.deepEqual(content.files.map(file => file.file).sort(), [...paths].sort());
+    assert.ok(content.files.every(file => file.hits.length === 1 && file.hits[0].line === 2));
+    const withMatches = await server.call('search_in_files', { path: dir, pattern: 'needle', outputMode: 'filesWithMatches' });
+    assert.deepEqual(withMatches.files.map(file => file.file).sort(), [...paths].sort());
+    const counts = await server.call('search_in_files', { path: dir, pattern: 'needle', outputMode: 'count' });
+    assert.deepEqual(counts.files.map(file => [file.file, file.matchCount]).sort(), paths.map(path => [path, 1]).sort());
+    const multiline = await server.call('search_in_files', { path: dir, pattern: 'line\\nneedle', regexFlavor: 'javascript', multiline: true });
+    assert.equal(multiline.files.length, paths.length);
+
+    const replaced = await server.call('replace_in_files', { path: dir, pattern: 'needle', replacement: 'thread' });
+    assert.equal(replaced.totalReplacements, paths.length);
+    for (const path of paths) {
+      assert.equal(readFileSync(path, 'utf-8'), 'first line\nthread\n');
+    }
+  });
+
+  it('list_allowed_directories', async () => {
+    const allowed = await server.call('list_allowed_directories');
+    assert.deepEqual(allowed.directories, [server.root]);
+  });
+
+  it('never runs commands embedded in names', () => {
+    const found = [];
+    const walk = dir => {
+      for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        if (entry.name === 'pwned') {
+          found.push(join(dir, entry.name));
+        }
+        if (entry.isDirectory()) {
+          walk(join(dir, entry.name));
+        }
+      }
+    };
+    walk(server.root);
+    assert.deepEqual(found, []);
+    assert.equal(existsSync('pwned'), false);
+  });
+});
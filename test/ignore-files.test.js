@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { startServer } from './helpers.js';
+
+const IGNORE_FILES = {
+  '.gitignore': '*.log\n!keep.log\n/build\ncache/\n',
+  '.ignore': 'generated/\n',
+  'sub/.gitignore': '*.tmp\n!important.log\n',
+  'sub/.ignore': 'secret.txt\n'
+};
+
+const FILES = [
+  'a.log',
+  'keep.log',
+  'build/out.txt',
+  'cache/entry.txt',
+  'generated/code.txt',
+  'secret.txt',
+  'x.tmp',
+  'sub/build/out.txt',
+  'sub/cache',
+  'sub/deep/cache/entry.txt',
+  'sub/debug.log',
+  'sub/important.log',
+  'sub/secret.txt',
+  'sub/x.tmp'
+];
+
+// Fichiers visibles : les fichiers d'exclusion eux-mêmes et ce qu'aucune règle n'écarte
+const VISIBLE = [
+  '.gitignore',
+  '.ignore',
+  'keep.log',
+  'secret.txt',
+  'sub/.gitignore',
+  'sub/.ignore',
+  'sub/build/out.txt',
+  'sub/cache',
+  'sub/important.log',
+  'x.tmp'
+];
+
+describe('ignore files', () => {
+  let server;
+  let repository;
+  let plain;
+
+  // Même arborescence dans un dépôt git (règles lues par git) et hors dépôt (règles lues par le serveur)
+  const createTree = name => {
+    const dir = server.directory(name);
+    for (const [file, content] of Object.entries(IGNORE_FILES)) {
+      mkdirSync(dirname(join(dir, file)), { recursive: true });
+      writeFileSync(join(dir, file), content);
+    }
+    for (const file of FILES) {
+      mkdirSync(dirname(join(dir, file)), { recursive: true });
+      writeFileSync(join(dir, file), 'needle\n');
+    }
+    return dir;
+  };
+
+  before(async () => {
+    server = await startServer();
+    repository = createTree('repository');
+    execFileSync('git', ['init', '-q', repository]);
+    plain = createTree('plain');
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  const foundByName = async dir => {
+    const result = await server.call('search_files_by_name', { path: dir, pattern: '*', type: 'file' });
+    return result.matches.map(match => relative(dir, match));
+  };
+
+  const foundByContent = async dir => {
+    const result = await server.call('search_in_files', { path: dir, pattern: 'needle', outputMode: 'filesWithMatches' });
+    return result.files.map(({ file }) => relative(dir, file)).sort();
+  };
+
+  it('applies nested rules, negations, anchored and directory-only patterns inside a git repository', async () => {
+    assert.deepEqual(await foundByName(repository), VISIBLE);
+    assert.deepEqual(await foundByContent(repository), VISIBLE.filter(file => !IGNORE_FILES[file]));
+  });
+
+  it('gives the same result outside a git repository', async () => {
+    assert.deepEqual(await foundByName(plain), VISIBLE);
+    assert.deepEqual(await foundByContent(plain), VISIBLE.filter(file => !IGNORE_FILES[file]));
+  });
+
+  it('lists every file with respectIgnoreFiles false', async () => {
+    const result = await server.call('search_files_by_name', { path: plain, pattern: '*', type: 'file', respectIgnoreFiles: false });
+    assert.deepEqual(result.matches.map(match => relative(plain, match)).sort(), [...Object.keys(IGNORE_FILES), ...FILES].sort());
+  });
+});
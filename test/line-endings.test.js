@@ -0,0 +1,69 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+const BOM = '\uFEFF';
+
+describe('line endings and byte order mark', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  // Fichier Windows : BOM UTF-8 et fins de ligne CRLF
+  const windowsFile = name => {
+    const path = join(server.directory('windows'), name);
+    writeFileSync(path, `${BOM}first\r\nsecond\r\nthird\r\n`);
+    return path;
+  };
+
+  it('write_file gives LF content the BOM and CRLF endings of the file it replaces', async () => {
+    const path = windowsFile('write.txt');
+    await server.call('write_file', { path, content: 'one\ntwo\n' });
+    assert.equal(readFileSync(path, 'utf-8'), `${BOM}one\r\ntwo\r\n`);
+  });
+
+  it('edit_file keeps the BOM and CRLF endings', async () => {
+    const path = windowsFile('edit.txt');
+    const result = await server.call('edit_file', { path, edits: [{ oldText: 'second\n', newText: 'SECOND\nadded\n' }] });
+    assert.equal(result.lineEnding, 'crlf');
+    assert.equal(result.bom, true);
+    assert.equal(readFileSync(path, 'utf-8'), `${BOM}first\r\nSECOND\r\nadded\r\nthird\r\n`);
+  });
+
+  it('replace_in_files keeps the BOM and CRLF endings', async () => {
+    const path = windowsFile('replace.txt');
+    await server.call('replace_in_files', { path: join(server.root, 'windows'), pattern: 'third', replacement: 'THIRD', includePatterns: ['replace.txt'] });
+    assert.equal(readFileSync(path, 'utf-8'), `${BOM}first\r\nsecond\r\nTHIRD\r\n`);
+  });
+
+  it('apply_patch applies an LF patch to a CRLF file and keeps its BOM', async () => {
+    const path = windowsFile('patch.txt');
+    await server.call('apply_patch', {
+      path: join(server.root, 'windows'),
+      patch: '--- a/patch.txt\n+++ b/patch.txt\n@@ -1,3 +1,3 @@\n first\n-second\n+patched\n third\n'
+    });
+    assert.equal(readFileSync(path, 'utf-8'), `${BOM}first\r\npatched\r\nthird\r\n`);
+  });
+
+  it('gives only the edited lines of a mixed file the dominant ending', async () => {
+    const path = join(server.directory('mixed'), 'mixed.txt');
+    writeFileSync(path, 'a\r\nb\nc\r\nd\r\ne\n');
+    await server.call('edit_file', { path, edits: [{ oldText: 'b', newText: 'B\nnew' }] });
+    assert.equal(readFileSync(path, 'utf-8'), 'a\r\nB\r\nnew\r\nc\r\nd\r\ne\n');
+  });
+
+  it('write_file finds CRLF endings after a first line longer than the 64 KB sample', async () => {
+    const path = join(server.directory('long-line'), 'long.txt');
+    writeFileSync(path, `${'x'.repeat(100 * 1024)}\r\nshort\r\n`);
+    await server.call('write_file', { path, content: 'one\ntwo\n' });
+    assert.equal(readFileSync(path, 'utf-8'), 'one\r\ntwo\r\n');
+  });
+});
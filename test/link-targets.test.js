@@ -0,0 +1,58 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readlinkSync, symlinkSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { startServer } from './helpers.js';
+
+describe('create_symlink targets', () => {
+  let server;
+  let links;
+  // Répertoire voisin du répertoire autorisé, donc hors des répertoires autorisés
+  let outside;
+
+  before(async () => {
+    server = await startServer();
+    links = server.directory('links');
+    outside = join(dirname(server.root), 'outside');
+    mkdirSync(outside);
+    writeFileSync(join(outside, 'secret.txt'), 'secret\n');
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  it('keeps an allowed relative target as given', async () => {
+    writeFileSync(join(server.directory('data'), 'file.txt'), 'data\n');
+    const result = await server.call('create_symlink', { path: join(links, 'relative'), target: '../data/file.txt' });
+    assert.equal(readlinkSync(join(links, 'relative')), '../data/file.txt');
+    assert.equal(result.target, '../data/file.txt');
+    assert.equal(result.resolvedTarget, join(server.root, 'data/file.txt'));
+    assert.equal(result.targetExists, true);
+  });
+
+  it('refuses a relative target climbing out of the allowed directories', async () => {
+    await assert.rejects(
+      server.call('create_symlink', { path: join(links, 'climbing'), target: '../../outside/secret.txt' }),
+      /Access denied - link target outside allowed directories: \.\.\/\.\.\/outside\/secret\.txt resolves to .*\/outside\/secret\.txt/
+    );
+    assert.equal(existsSync(join(links, 'climbing')), false);
+  });
+
+  it('refuses an absolute target outside the allowed directories', async () => {
+    await assert.rejects(
+      server.call('create_symlink', { path: join(links, 'absolute'), target: join(outside, 'secret.txt') }),
+      /Access denied - link target outside allowed directories/
+    );
+    assert.equal(existsSync(join(links, 'absolute')), false);
+  });
+
+  it('refuses a target escaping through an intermediate symbolic link', async () => {
+    symlinkSync(outside, join(server.root, 'escape'));
+    await assert.rejects(
+      server.call('create_symlink', { path: join(links, 'through'), target: '../escape/secret.txt' }),
+      new RegExp(`link target outside allowed directories: \\.\\./escape/secret\\.txt resolves to ${outside}/secret\\.txt`)
+    );
+    assert.equal(existsSync(join(links, 'through')), false);
+  });
+});
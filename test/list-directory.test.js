@@ -0,0 +1,68 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { utimesSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+// Nom, taille et date de modification (en secondes) de chaque fichier ; "a" et "é" ont la même taille,
+// "B" et "_x" la même date, pour vérifier le départage par nom
+const FILES = [
+  ['.hidden', 40, 1_700_000_500],
+  ['B', 30, 1_700_000_100],
+  ['_x', 10, 1_700_000_100],
+  ['a', 20, 1_700_000_300],
+  ['é', 20, 1_700_000_200]
+];
+
+describe('list_directory sorting and hidden entries', () => {
+  let server;
+  let dir;
+
+  before(async () => {
+    server = await startServer();
+    dir = server.directory('listing');
+    for (const [name, size, mtime] of FILES) {
+      writeFileSync(join(dir, name), 'x'.repeat(size));
+      utimesSync(join(dir, name), mtime, mtime);
+    }
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  const names = async args => {
+    const result = await server.call('list_directory', { path: dir, ...args });
+    return result.entries.map(entry => entry.name);
+  };
+
+  it('sorts by name in code point order by default', async () => {
+    assert.deepEqual(await names({}), ['.hidden', 'B', '_x', 'a', 'é']);
+    assert.deepEqual(await names({ sortBy: 'name' }), ['.hidden', 'B', '_x', 'a', 'é']);
+  });
+
+  it('sorts by size, largest first, then by name', async () => {
+    assert.deepEqual(await names({ sortBy: 'size' }), ['.hidden', 'B', 'a', 'é', '_x']);
+  });
+
+  it('sorts by modification time, newest first, then by name', async () => {
+    assert.deepEqual(await names({ sortBy: 'mtime' }), ['.hidden', 'a', 'é', 'B', '_x']);
+  });
+
+  it('reports the size and modification time it sorts on', async () => {
+    const { entries } = await server.call('list_directory', { path: dir });
+    const a = entries.find(entry => entry.name === 'a');
+    assert.equal(a.size, 20);
+    assert.equal(a.modified, new Date(1_700_000_300_000).toISOString());
+  });
+
+  it('leaves out dot entries with showHidden false, whatever the order', async () => {
+    assert.deepEqual(await names({ showHidden: false }), ['B', '_x', 'a', 'é']);
+    assert.deepEqual(await names({ showHidden: false, sortBy: 'size' }), ['B', 'a', 'é', '_x']);
+
+    const result = await server.call('list_directory_with_sizes', { path: dir, showHidden: false });
+    assert.deepEqual(result.entries.map(entry => entry.name), ['B', '_x', 'a', 'é']);
+    assert.equal(result.totalFiles, 4);
+    assert.equal(result.totalSize, 80);
+  });
+});
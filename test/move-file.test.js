@@ -0,0 +1,126 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, realpathSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+// Second répertoire autorisé sur un autre système de fichiers (tmpfs), quand il y en a un
+const otherFilesystem = existsSync('/dev/shm') && statSync('/dev/shm').dev !== statSync(realpathSync(process.env.TMPDIR ?? '/tmp')).dev
+  ? realpathSync(mkdtempSync('/dev/shm/mcp-wsl-filesystem-test-'))
+  : null;
+
+describe('move_file', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer({ args: otherFilesystem ? [otherFilesystem] : [] });
+  });
+
+  after(async () => {
+    await server?.close();
+    if (otherFilesystem) {
+      rmSync(otherFilesystem, { recursive: true, force: true });
+    }
+  });
+
+  it('applies no move of a batch when a later destination already exists', async () => {
+    const dir = server.directory('batch');
+    for (const name of ['a', 'b', 'c', 'taken']) {
+      writeFileSync(join(dir, name), `${name}\n`);
+    }
+
+    await assert.rejects(
+      server.call('move_file', {
+        moves: [
+          { source: join(dir, 'a'), destination: join(dir, 'a2') },
+          { source: join(dir, 'b'), destination: join(dir, 'b2') },
+          { source: join(dir, 'c'), destination: join(dir, 'taken') }
+        ]
+      }),
+      /already exists/
+    );
+    assert.deepEqual(readdirSync(dir).sort(), ['a', 'b', 'c', 'taken']);
+    assert.equal(readFileSync(join(dir, 'taken'), 'utf-8'), 'taken\n');
+  });
+
+  it('replaces the destination with overwrite', async () => {
+    const dir = server.directory('overwrite');
+    writeFileSync(join(dir, 'source'), 'new\n');
+    writeFileSync(join(dir, 'destination'), 'old\n');
+
+    await assert.rejects(server.call('move_file', { source: join(dir, 'source'), destination: join(dir, 'destination') }), /already exists/);
+    await server.call('move_file', { source: join(dir, 'source'), destination: join(dir, 'destination'), overwrite: true });
+    assert.deepEqual(readdirSync(dir), ['destination']);
+    assert.equal(readFileSync(join(dir, 'destination'), 'utf-8'), 'new\n');
+  });
+
+  it('refuses to replace a non-empty directory even with overwrite', async () => {
+    const dir = server.directory('non-empty');
+    writeFileSync(join(dir, 'source'), 'file\n');
+    mkdirSync(join(dir, 'destination'));
+    writeFileSync(join(dir, 'destination', 'inside'), 'kept\n');
+
+    await assert.rejects(
+      server.call('move_file', { source: join(dir, 'source'), destination: join(dir, 'destination'), overwrite: true }),
+      /non-empty directory/
+    );
+    assert.equal(readFileSync(join(dir, 'destination', 'inside'), 'utf-8'), 'kept\n');
+  });
+
+  it('refuses to move a directory into its own subdirectory', async () => {
+    const dir = server.directory('into-itself');
+    mkdirSync(join(dir, 'parent', 'child'), { recursive: true });
+
+    await assert.rejects(
+      server.call('move_file', { source: join(dir, 'parent'), destination: join(dir, 'parent', 'child', 'parent') }),
+      /into itself/
+    );
+    assert.ok(statSync(join(dir, 'parent', 'child')).isDirectory());
+  });
+
+  it('copies a tree to another filesystem and removes the source', { skip: !otherFilesystem && 'no second filesystem' }, async () => {
+    const dir = server.directory('cross-source');
+    mkdirSync(join(dir, 'tree', 'nested'), { recursive: true });
+    writeFileSync(join(dir, 'tree', 'top.txt'), 'top\n');
+    writeFileSync(join(dir, 'tree', 'nested', 'script.sh'), '#!/bin/sh\n');
+    chmodSync(join(dir, 'tree', 'nested', 'script.sh'), 0o750);
+    writeFileSync(join(dir, 'single.txt'), 'single\n');
+    const destination = join(otherFilesystem, 'cross-destination');
+    mkdirSync(destination);
+
+    await server.call('move_file', {
+      moves: [
+        { source: join(dir, 'tree'), destination: join(destination, 'tree') },
+        { source: join(dir, 'single.txt'), destination: join(destination, 'single.txt') }
+      ]
+    });
+    assert.deepEqual(readdirSync(dir), []);
+    assert.equal(readFileSync(join(destination, 'tree', 'top.txt'), 'utf-8'), 'top\n');
+    assert.equal(statSync(join(destination, 'tree', 'nested', 'script.sh')).mode & 0o777, 0o750);
+    assert.equal(readFileSync(join(destination, 'single.txt'), 'utf-8'), 'single\n');
+    assert.deepEqual(readdirSync(destination).sort(), ['single.txt', 'tree']);
+  });
+
+  it('leaves both filesystems unchanged when a cross-filesystem batch is refused', { skip: !otherFilesystem && 'no second filesystem' }, async () => {
+    const dir = server.directory('cross-refused');
+    mkdirSync(join(dir, 'tree'));
+    writeFileSync(join(dir, 'tree', 'file.txt'), 'file\n');
+    writeFileSync(join(dir, 'other.txt'), 'other\n');
+    const destination = join(otherFilesystem, 'cross-refused');
+    mkdirSync(destination);
+    writeFileSync(join(destination, 'other.txt'), 'existing\n');
+
+    await assert.rejects(
+      server.call('move_file', {
+        moves: [
+          { source: join(dir, 'tree'), destination: join(destination, 'tree') },
+          { source: join(dir, 'other.txt'), destination: join(destination, 'other.txt') }
+        ]
+      }),
+      /already exists/
+    );
+    assert.deepEqual(readdirSync(dir).sort(), ['other.txt', 'tree']);
+    assert.deepEqual(readdirSync(destination), ['other.txt']);
+    assert.equal(readFileSync(join(destination, 'other.txt'), 'utf-8'), 'existing\n');
+  });
+});
@@ -0,0 +1,63 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+// Une seule ligne de caractères de 2, 3 et 4 octets : le "x" initial décale les coupures de 1000 octets
+// au milieu d'une séquence UTF-8
+const TEXTS = {
+  'two-bytes': 'x' + 'é'.repeat(1500),
+  'three-bytes': 'x' + '日本語'.repeat(400),
+  'four-bytes': 'x' + '😀'.repeat(800)
+};
+
+describe('read_file_by_parts inside multibyte UTF-8 sequences', () => {
+  let server;
+  let dir;
+
+  before(async () => {
+    server = await startServer();
+    dir = server.directory('parts');
+    for (const [name, text] of Object.entries(TEXTS)) {
+      writeFileSync(join(dir, `${name}.txt`), text);
+    }
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  for (const [name, text] of Object.entries(TEXTS)) {
+    it(`cuts ${name} characters only between code points`, async () => {
+      const path = join(dir, `${name}.txt`);
+      const info = await server.call('get_file_parts_info', { path, part_size: 1000 });
+      assert.equal(info.totalBytes, Buffer.byteLength(text));
+      assert.ok(info.totalParts > 1);
+
+      let joined = '';
+      let previousEnd = 0;
+      for (const boundary of info.parts) {
+        const part = await server.call('read_file_by_parts', { path, part_number: boundary.partNumber, part_size: 1000 });
+        assert.equal(part.startByte, boundary.startByte);
+        assert.equal(part.endByte, boundary.endByte);
+        assert.equal(part.startByte, previousEnd);
+        assert.ok(!part.content.includes('�'), `part ${boundary.partNumber} starts or ends inside a character`);
+        assert.equal(Buffer.byteLength(part.content), part.endByte - part.startByte);
+        joined += part.content;
+        previousEnd = part.endByte;
+      }
+      assert.equal(previousEnd, info.totalBytes);
+      assert.equal(joined, text);
+    });
+  }
+
+  it('refuses a part past the last one', async () => {
+    const path = join(dir, 'two-bytes.txt');
+    const { totalParts } = await server.call('get_file_parts_info', { path, part_size: 1000 });
+    await assert.rejects(
+      server.call('read_file_by_parts', { path, part_number: totalParts + 1, part_size: 1000 }),
+      new RegExp(`Part ${totalParts + 1} does not exist\\.`)
+    );
+  });
+});
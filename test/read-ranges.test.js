@@ -0,0 +1,77 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+describe('read_file line and byte ranges', () => {
+  let server;
+  let empty;
+  let three;
+  let unterminated;
+
+  before(async () => {
+    server = await startServer();
+    const dir = server.directory('ranges');
+    empty = join(dir, 'empty.txt');
+    writeFileSync(empty, '');
+    three = join(dir, 'three.txt');
+    writeFileSync(three, 'a\nb\nc\n');
+    unterminated = join(dir, 'unterminated.txt');
+    writeFileSync(unterminated, 'a\nb');
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  it('returns nothing, without an error, for any line range of an empty file', async () => {
+    for (const range of [{ startLine: 1, endLine: 5 }, { startLine: 3 }, { tail: 2 }, { head: 2 }]) {
+      const result = await server.callRaw('read_file', { path: empty, ...range });
+      assert.ok(!result.isError, JSON.stringify(range));
+      assert.equal(result.structuredContent.content, '');
+      assert.equal(result.structuredContent.totalLines, 0);
+      assert.match(result.content.at(-1).text, /^\[No lines returned; file has 0 lines, 0 bytes total/);
+    }
+  });
+
+  it('returns nothing for a byte range of an empty file', async () => {
+    const result = await server.call('read_file', { path: empty, offset: 0, length: 4 });
+    assert.equal(result.content, '');
+    assert.equal(result.startByte, 0);
+    assert.equal(result.endByte, 0);
+  });
+
+  it('refuses a start line past the end of a non-empty file', async () => {
+    await assert.rejects(server.call('read_file', { path: three, startLine: 4 }), /File has only 3 lines\. Line 4 does not exist\./);
+  });
+
+  it('stops a range that runs past the end at the last line', async () => {
+    const result = await server.call('read_file', { path: three, startLine: 3, endLine: 10 });
+    assert.equal(result.content, 'c\n');
+    assert.equal(result.firstLine, 3);
+    assert.equal(result.lastLine, 3);
+  });
+
+  it('returns the whole file for a tail longer than the file', async () => {
+    const result = await server.call('read_file', { path: three, tail: 10 });
+    assert.equal(result.content, 'a\nb\nc\n');
+    assert.equal(result.firstLine, 1);
+    assert.equal(result.lastLine, 3);
+  });
+
+  it('counts a last line without a newline', async () => {
+    const result = await server.call('read_file', { path: unterminated, tail: 1 });
+    assert.equal(result.content, 'b');
+    assert.equal(result.firstLine, 2);
+    assert.equal(result.totalLines, 2);
+  });
+
+  it('refuses an offset at or past the end, and shortens a length that runs past it', async () => {
+    await assert.rejects(server.call('read_file', { path: three, offset: 6 }), /File has only 6 bytes\. Offset 6 is out of range\./);
+    const result = await server.call('read_file', { path: three, offset: 5, length: 10 });
+    assert.equal(result.content, '\n');
+    assert.equal(result.startByte, 5);
+    assert.equal(result.endByte, 6);
+  });
+});
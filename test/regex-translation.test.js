@@ -0,0 +1,95 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { startServer } from './helpers.js';
+
+// Une ligne par fichier : les fichiers retenus donnent les lignes qui correspondent
+const LINES = {
+  digits: 'abc 123',
+  word: 'the cat sat',
+  concat: 'concatenate',
+  tab: 'tab\tseparated',
+  meta: 'a.b*c+d? (x) [y] {z}',
+  bracket: 'closing ] bracket',
+  dash: 'a - dash',
+  upper: 'ÉCOLE',
+  lower: 'école',
+  mixed: 'x1y'
+};
+
+describe('grep and JavaScript readings of a pattern', () => {
+  let server;
+  let dir;
+
+  before(async () => {
+    server = await startServer();
+    dir = server.directory('lines');
+    for (const [name, line] of Object.entries(LINES)) {
+      writeFileSync(join(dir, `${name}.txt`), `${line}\n`);
+    }
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  // Lignes retenues par grep (search_in_files) et par le moteur JavaScript (replace_in_files, qui sélectionne
+  // et remplace avec le motif traduit) ; les deux doivent être identiques
+  const matchingLines = async (pattern, regexFlavor, caseInsensitive = false) => {
+    const names = files => files.map(({ file }) => basename(file, '.txt')).sort();
+    const grep = await server.call('search_in_files', { path: dir, pattern, regexFlavor, caseInsensitive, outputMode: 'filesWithMatches' });
+    const replaced = await server.call('replace_in_files', { path: dir, pattern, regexFlavor, caseInsensitive, replacement: '#', dryRun: true });
+    assert.deepEqual(names(replaced.files), names(grep.files), `${regexFlavor} ${pattern}: grep and JavaScript disagree`);
+    return names(grep.files);
+  };
+
+  it('\\d is a digit in PCRE and a literal d in POSIX extended', async () => {
+    assert.deepEqual(await matchingLines('\\d', 'pcre'), ['digits', 'mixed']);
+    assert.deepEqual(await matchingLines('\\d', 'extended'), ['dash', 'meta', 'tab']);
+  });
+
+  it('word boundaries', async () => {
+    assert.deepEqual(await matchingLines('\\bcat\\b', 'extended'), ['word']);
+    assert.deepEqual(await matchingLines('\\bcat\\b', 'pcre'), ['word']);
+    assert.deepEqual(await matchingLines('\\<cat\\>', 'extended'), ['word']);
+  });
+
+  it('\\s', async () => {
+    const spaced = ['bracket', 'dash', 'digits', 'meta', 'tab', 'word'];
+    assert.deepEqual(await matchingLines('\\s', 'extended'), spaced);
+    assert.deepEqual(await matchingLines('\\s', 'pcre'), spaced);
+  });
+
+  it('escaped metacharacters and fixed strings', async () => {
+    assert.deepEqual(await matchingLines('a\\.b\\*c\\+d\\?', 'extended'), ['meta']);
+    assert.deepEqual(await matchingLines('\\(x\\) \\[y\\] \\{z\\}', 'extended'), ['meta']);
+    assert.deepEqual(await matchingLines('a.b*c+d? (x)', 'fixed'), ['meta']);
+    assert.deepEqual(await matchingLines('[y] {z}', 'fixed'), ['meta']);
+    assert.deepEqual(await matchingLines('.', 'fixed'), ['meta']);
+  });
+
+  it('bracket expressions with ] and -', async () => {
+    assert.deepEqual(await matchingLines('[]-]', 'extended'), ['bracket', 'dash', 'meta']);
+    assert.deepEqual(await matchingLines('[]x-]', 'pcre'), ['bracket', 'dash', 'meta', 'mixed']);
+    assert.deepEqual(await matchingLines('[^]a-z ]', 'extended'), ['dash', 'digits', 'lower', 'meta', 'mixed', 'tab', 'upper']);
+  });
+
+  it('POSIX character classes, which cover non-ASCII letters in extended patterns only', async () => {
+    assert.deepEqual(await matchingLines('[[:alpha:]][[:digit:]]', 'extended'), ['mixed']);
+    assert.deepEqual(await matchingLines('^[[:lower:][:space:]]+$', 'extended'), ['concat', 'lower', 'tab', 'word']);
+    assert.deepEqual(await matchingLines('^[[:upper:]]+$', 'extended'), ['upper']);
+    assert.deepEqual(await matchingLines('^[[:alpha:]]+$', 'extended'), ['concat', 'lower', 'upper']);
+    assert.deepEqual(await matchingLines('^[[:alpha:]]+$', 'pcre'), ['concat']);
+    assert.deepEqual(await matchingLines('^\\w+$', 'extended'), ['concat', 'lower', 'mixed', 'upper']);
+    assert.deepEqual(await matchingLines('\\<cole', 'extended'), []);
+  });
+
+  it('non-ASCII characters, case-insensitively', async () => {
+    assert.deepEqual(await matchingLines('école', 'fixed', true), ['lower', 'upper']);
+    assert.deepEqual(await matchingLines('ÉCOLE', 'extended', true), ['lower', 'upper']);
+    assert.deepEqual(await matchingLines('^.cole$', 'pcre', true), ['lower', 'upper']);
+    assert.deepEqual(await matchingLines('^.{5}$', 'extended'), ['lower', 'upper']);
+    assert.deepEqual(await matchingLines('(?i)^ÉCOLE$', 'pcre'), ['lower', 'upper']);
+  });
+});
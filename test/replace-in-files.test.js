@@ -0,0 +1,65 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+describe('replace_in_files', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  // Répertoire neuf contenant un fichier, renvoie le chemin du fichier
+  const fileIn = (name, content) => {
+    const path = join(server.directory(name), 'file.txt');
+    writeFileSync(path, content);
+    return path;
+  };
+
+  it('inserts numbered and named groups and a literal $ with $$', async () => {
+    const path = fileIn('groups', 'price: 10 EUR\n');
+    await server.call('replace_in_files', { path: join(server.root, 'groups'), pattern: '([0-9]+) (EUR)', replacement: '$2 $1', regexFlavor: 'extended' });
+    assert.equal(readFileSync(path, 'utf-8'), 'price: EUR 10\n');
+
+    await server.call('replace_in_files', { path: join(server.root, 'groups'), pattern: '(?<currency>EUR) (?<amount>\\d+)', replacement: '$<amount>$$ ($<currency>)', regexFlavor: 'pcre' });
+    assert.equal(readFileSync(path, 'utf-8'), 'price: 10$ (EUR)\n');
+  });
+
+  it('replaces a fixed string with a literal $1', async () => {
+    const path = fileIn('fixed', 'cost (x)\n');
+    const result = await server.call('replace_in_files', { path: join(server.root, 'fixed'), pattern: '(x)', replacement: '$1 $& $$' });
+    assert.equal(result.totalReplacements, 1);
+    assert.equal(readFileSync(path, 'utf-8'), 'cost $1 $& $$\n');
+  });
+
+  it('refuses to modify anything when more files than maxFiles match', async () => {
+    const dir = server.directory('max-files');
+    for (const name of ['a.txt', 'b.txt', 'c.txt']) {
+      writeFileSync(join(dir, name), 'old\n');
+    }
+    await assert.rejects(
+      server.call('replace_in_files', { path: dir, pattern: 'old', replacement: 'new', maxFiles: 2 }),
+      /Pattern matches 3 files, more than maxFiles \(2\)/
+    );
+    for (const name of ['a.txt', 'b.txt', 'c.txt']) {
+      assert.equal(readFileSync(join(dir, name), 'utf-8'), 'old\n');
+    }
+  });
+
+  it('previews the replacements in dry-run mode without touching the disk', async () => {
+    const path = fileIn('dry-run', 'keep old\nold again\n');
+    const result = await server.call('replace_in_files', { path: join(server.root, 'dry-run'), pattern: 'old', replacement: 'new', dryRun: true });
+    assert.equal(result.dryRun, true);
+    assert.equal(result.totalReplacements, 2);
+    assert.deepEqual(result.files.map(file => file.replacements), [2]);
+    assert.match(result.diff, /-keep old\n-old again\n\+keep new\n\+new again/);
+    assert.equal(readFileSync(path, 'utf-8'), 'keep old\nold again\n');
+    assert.deepEqual(readdirSync(join(server.root, 'dry-run')), ['file.txt']);
+  });
+});
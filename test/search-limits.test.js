@@ -0,0 +1,48 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+// Nombre de lignes correspondantes par fichier, chacun au-delà de la limite testée
+const MATCHES = { 'a.txt': 5, 'b.txt': 4, 'c.txt': 6 };
+
+describe('search_in_files maxResults', () => {
+  let server;
+  let dir;
+
+  before(async () => {
+    server = await startServer();
+    dir = server.directory('limits');
+    for (const [name, count] of Object.entries(MATCHES)) {
+      writeFileSync(join(dir, name), Array.from({ length: count }, (_, i) => `needle ${i + 1}\nhay\n`).join(''));
+    }
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  // Fichiers, nombre de lignes renvoyées et nombre exact de correspondances de chaque fichier
+  const summary = result => result.files.map(({ file, matchCount, hits }) => [file.slice(dir.length + 1), hits.length, matchCount]);
+
+  for (const [engine, extra] of [['grep', {}], ['the JavaScript engine', { regexFlavor: 'javascript' }]]) {
+    it(`keeps exactly maxResults hits across files with ${engine}`, async () => {
+      const first = await server.call('search_in_files', { path: dir, pattern: 'needle', maxResults: 3, ...extra });
+      assert.deepEqual(summary(first), [['a.txt', 3, 5]]);
+      assert.deepEqual(first.files[0].hits.map(hit => hit.line), [1, 3, 5]);
+      assert.equal(first.totalMatches, 15);
+      assert.equal(first.omitted, 12);
+
+      const spanning = await server.call('search_in_files', { path: dir, pattern: 'needle', maxResults: 7, ...extra });
+      assert.deepEqual(summary(spanning), [['a.txt', 5, 5], ['b.txt', 2, 4]]);
+      assert.equal(spanning.totalMatches, 15);
+      assert.equal(spanning.omitted, 8);
+    });
+  }
+
+  it('reports the omitted hits in the text', async () => {
+    const result = await server.callRaw('search_in_files', { path: dir, pattern: 'needle', maxResults: 3 });
+    assert.match(result.content[0].text, /\.\.\. \(12 more matches omitted, maxResults: 3\)$/);
+  });
+});
@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { startServer } from './helpers.js';
+
+describe('delete and trash', () => {
+  let server;
+  // Corbeille passée au serveur par startServer (--trash-dir), à côté du répertoire autorisé
+  let trash;
+
+  before(async () => {
+    server = await startServer();
+    trash = join(dirname(server.root), 'trash');
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  it('refuses to delete an allowed directory', async () => {
+    writeFileSync(join(server.root, 'kept.txt'), 'kept\n');
+    await assert.rejects(
+      server.call('delete_directory', { path: server.root, recursive: true }),
+      /Refusing to delete .*: it is an allowed directory or contains one/
+    );
+    await assert.rejects(
+      server.call('delete_directory', { path: `${server.root}/sub/..`, recursive: true }),
+      /it is an allowed directory or contains one/
+    );
+    assert.equal(readFileSync(join(server.root, 'kept.txt'), 'utf-8'), 'kept\n');
+  });
+
+  it('only deletes a non-empty directory with recursive', async () => {
+    const dir = server.directory('non-empty');
+    writeFileSync(join(dir, 'file.txt'), 'content\n');
+
+    await assert.rejects(
+      server.call('delete_directory', { path: dir }),
+      /Directory not empty: .* contains 1 entries, pass recursive: true/
+    );
+    assert.equal(readFileSync(join(dir, 'file.txt'), 'utf-8'), 'content\n');
+
+    const empty = server.directory('empty');
+    await server.call('delete_directory', { path: empty });
+    assert.equal(existsSync(empty), false);
+  });
+
+  it('refuses to restore over an existing entry', async () => {
+    const dir = server.directory('restore');
+    const path = join(dir, 'file.txt');
+    writeFileSync(path, 'deleted\n');
+    const { trashId } = await server.call('delete_file', { path });
+    writeFileSync(path, 'replacement\n');
+
+    await assert.rejects(server.call('restore_from_trash', { id: trashId }), /destination already exists/);
+    assert.equal(readFileSync(path, 'utf-8'), 'replacement\n');
+
+    const restored = await server.call('restore_from_trash', { id: trashId, destination: join(dir, 'restored.txt') });
+    assert.equal(restored.path, join(dir, 'restored.txt'));
+    assert.equal(readFileSync(join(dir, 'restored.txt'), 'utf-8'), 'deleted\n');
+  });
+
+  it('empties only the items older than olderThanDays', async () => {
+    const dir = server.directory('older');
+    writeFileSync(join(dir, 'old.txt'), 'old\n');
+    writeFileSync(join(dir, 'recent.txt'), 'recent\n');
+    const { trashId: oldId } = await server.call('delete_file', { path: join(dir, 'old.txt') });
+    const { trashId: recentId } = await server.call('delete_file', { path: join(dir, 'recent.txt') });
+    // Antidater le premier élément de 10 jours
+    const infoPath = join(trash, oldId, 'info.json');
+    const info = JSON.parse(readFileSync(infoPath, 'utf-8'));
+    writeFileSync(infoPath, JSON.stringify({ ...info, deletedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString() }));
+
+    const preview = await server.call('empty_trash', { olderThanDays: 7, dryRun: true });
+    assert.deepEqual(preview.removed.map(item => item.id), [oldId]);
+    assert.ok(existsSync(join(trash, oldId)));
+
+    const emptied = await server.call('empty_trash', { olderThanDays: 7 });
+    assert.deepEqual(emptied.removed.map(item => item.id), [oldId]);
+    assert.equal(emptied.freedBytes, 'old\n'.length);
+    assert.equal(existsSync(join(trash, oldId)), false);
+    const remaining = await server.call('list_trash', { path: dir });
+    assert.deepEqual(remaining.items.map(item => item.id), [recentId]);
+  });
+});
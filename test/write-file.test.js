@@ -0,0 +1,79 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, chownSync, linkSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { startServer } from './helpers.js';
+
+describe('write_file', () => {
+  let server;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  it('keeps the mode and, when allowed, the owner of the file it replaces', async () => {
+    const dir = server.directory('permissions');
+    const path = join(dir, 'script.sh');
+    writeFileSync(path, '#!/bin/sh\n');
+    chmodSync(path, 0o750);
+    // Seul root peut donner le fichier à un autre utilisateur
+    const owner = process.getuid?.() === 0 ? { uid: 1234, gid: 5678 } : null;
+    if (owner) {
+      chownSync(path, owner.uid, owner.gid);
+    }
+
+    await server.call('write_file', { path, content: '#!/bin/sh\necho new\n' });
+    const stats = statSync(path);
+    assert.equal(readFileSync(path, 'utf-8'), '#!/bin/sh\necho new\n');
+    assert.equal(stats.mode & 0o7777, 0o750);
+    if (owner) {
+      assert.deepEqual({ uid: stats.uid, gid: stats.gid }, owner);
+    }
+    assert.deepEqual(readdirSync(dir), ['script.sh']);
+  });
+
+  it('applies an explicit mode', async () => {
+    const path = join(server.directory('mode'), 'file.txt');
+    writeFileSync(path, 'old\n');
+    await server.call('write_file', { path, content: 'new\n', mode: '600' });
+    assert.equal(statSync(path).mode & 0o7777, 0o600);
+  });
+
+  it('writes a hardlinked file in place, keeping its inode and the other link', async () => {
+    const dir = server.directory('hardlink');
+    const path = join(dir, 'file.txt');
+    const other = join(dir, 'other.txt');
+    writeFileSync(path, 'old\n');
+    linkSync(path, other);
+    const inode = statSync(path).ino;
+
+    await server.call('write_file', { path, content: 'new\n' });
+    assert.equal(statSync(path).ino, inode);
+    assert.equal(readFileSync(other, 'utf-8'), 'new\n');
+  });
+
+  it('refuses to overwrite an existing file with createOnly', async () => {
+    const dir = server.directory('create-only');
+    const path = join(dir, 'file.txt');
+    writeFileSync(path, 'existing\n');
+
+    await assert.rejects(server.call('write_file', { path, content: 'new\n', createOnly: true }), /already exists/);
+    assert.equal(readFileSync(path, 'utf-8'), 'existing\n');
+    assert.deepEqual(readdirSync(dir), ['file.txt']);
+
+    await server.call('write_file', { path: join(dir, 'created.txt'), content: 'created\n', createOnly: true });
+    assert.equal(readFileSync(join(dir, 'created.txt'), 'utf-8'), 'created\n');
+  });
+
+  it('appends to the end of the file', async () => {
+    const path = join(server.directory('append'), 'log.txt');
+    writeFileSync(path, 'first\n');
+    await server.call('write_file', { path, content: 'second\n', append: true });
+    await server.call('write_file', { path, content: 'third\n', append: true });
+    assert.equal(readFileSync(path, 'utf-8'), 'first\nsecond\nthird\n');
+  });
+});